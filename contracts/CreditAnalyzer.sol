@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint8, ebool, externalEuint32, externalEuint8 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /**
@@ -42,9 +42,18 @@ contract CreditAnalyzer is SepoliaConfig {
     mapping(address => CreditData) public creditSubmissions;
     mapping(address => CreditEvaluation) public creditEvaluations;
     
+    // Accounts the owner has registered to review loan requests
+    mapping(address => bool) public isLender;
+    // Lenders each applicant has shared their results with
+    mapping(address => mapping(address => bool)) public hasLenderAccess;
+    mapping(address => address[]) private grantedLenders;
+    
     event CreditDataSubmitted(address indexed user, uint256 timestamp);
     event CreditEvaluated(address indexed user, uint256 timestamp);
     event LoanApprovalRequested(address indexed user, uint256 timestamp);
+    event CreditDataUpdated(address indexed user, uint256 timestamp);
+    event LenderUpdated(address indexed lender, bool enabled);
+    event LenderAccessGranted(address indexed user, address indexed lender, uint256 timestamp);
     
     modifier onlyOwner() {
         require(msg.sender == owner, "Not authorized");
@@ -56,6 +65,11 @@ contract CreditAnalyzer is SepoliaConfig {
         _;
     }
     
+    modifier userHasSubmittedData(address user) {
+        require(creditSubmissions[user].hasSubmitted, "No credit data submitted");
+        _;
+    }
+    
     constructor() {
         owner = msg.sender;
         totalEvaluations = 0;
@@ -63,16 +77,24 @@ contract CreditAnalyzer is SepoliaConfig {
     
     /**
      * @dev Submit encrypted credit data for evaluation
+     * @notice All five handles come from one encrypted input and share a single proof
      */
     function submitCreditData(
-        euint32 _encryptedIncome,
-        euint32 _encryptedDebt,
-        euint8 _encryptedAge,
-        euint8 _encryptedCreditHistory,
-        euint8 _encryptedPaymentHistory
+        externalEuint32 _income,
+        externalEuint32 _debt,
+        externalEuint8 _age,
+        externalEuint8 _creditHistory,
+        externalEuint8 _paymentHistory,
+        bytes calldata inputProof
     ) external {
         require(!creditSubmissions[msg.sender].hasSubmitted, "Data already submitted");
         
+        euint32 _encryptedIncome = FHE.fromExternal(_income, inputProof);
+        euint32 _encryptedDebt = FHE.fromExternal(_debt, inputProof);
+        euint8 _encryptedAge = FHE.fromExternal(_age, inputProof);
+        euint8 _encryptedCreditHistory = FHE.fromExternal(_creditHistory, inputProof);
+        euint8 _encryptedPaymentHistory = FHE.fromExternal(_paymentHistory, inputProof);
+        
         creditSubmissions[msg.sender] = CreditData({
             encryptedIncome: _encryptedIncome,
             encryptedDebt: _encryptedDebt,
@@ -89,10 +111,44 @@ contract CreditAnalyzer is SepoliaConfig {
         emit CreditDataSubmitted(msg.sender, block.timestamp);
     }
     
+    /**
+     * @dev Replace previously submitted credit data with a new encrypted input
+     * @notice Any existing evaluation was computed from the old data and is discarded
+     */
+    function updateCreditData(
+        externalEuint32 _income,
+        externalEuint32 _debt,
+        externalEuint8 _age,
+        externalEuint8 _creditHistory,
+        externalEuint8 _paymentHistory,
+        bytes calldata inputProof
+    ) external hasSubmittedData {
+        euint32 _encryptedIncome = FHE.fromExternal(_income, inputProof);
+        euint32 _encryptedDebt = FHE.fromExternal(_debt, inputProof);
+        euint8 _encryptedAge = FHE.fromExternal(_age, inputProof);
+        euint8 _encryptedCreditHistory = FHE.fromExternal(_creditHistory, inputProof);
+        euint8 _encryptedPaymentHistory = FHE.fromExternal(_paymentHistory, inputProof);
+        
+        CreditData storage data = creditSubmissions[msg.sender];
+        data.encryptedIncome = _encryptedIncome;
+        data.encryptedDebt = _encryptedDebt;
+        data.encryptedAge = _encryptedAge;
+        data.encryptedCreditHistory = _encryptedCreditHistory;
+        data.encryptedPaymentHistory = _encryptedPaymentHistory;
+        data.submissionTime = block.timestamp;
+        
+        delete creditEvaluations[msg.sender];
+        
+        // Grant access permissions
+        _grantDataAccessPermissions(_encryptedIncome, _encryptedDebt, _encryptedAge, _encryptedCreditHistory, _encryptedPaymentHistory);
+        
+        emit CreditDataUpdated(msg.sender, block.timestamp);
+    }
+    
     /**
      * @dev Evaluate credit score using encrypted computation
      */
-    function evaluateCreditScore(address user) external hasSubmittedData {
+    function evaluateCreditScore(address user) external userHasSubmittedData(user) {
         require(msg.sender == user || msg.sender == owner, "Not authorized to evaluate");
         require(!creditEvaluations[user].isEvaluated, "Already evaluated");
         
@@ -123,10 +179,62 @@ contract CreditAnalyzer is SepoliaConfig {
         FHE.allow(score, user);
         FHE.allow(approved, user);
         
+        // Lenders the applicant opted in to keep access to the new results
+        address[] storage lenders = grantedLenders[user];
+        for (uint256 i = 0; i < lenders.length; i++) {
+            if (isLender[lenders[i]]) {
+                _allowLender(user, lenders[i]);
+            }
+        }
+        
         totalEvaluations++;
         emit CreditEvaluated(user, block.timestamp);
     }
     
+    /**
+     * @dev Register or remove a lender
+     * @notice Removing a lender stops future grants; ciphertexts they could already
+     *         decrypt stay readable to them, as FHE access cannot be revoked
+     */
+    function setLender(address lender, bool enabled) external onlyOwner {
+        isLender[lender] = enabled;
+        emit LenderUpdated(lender, enabled);
+    }
+    
+    /**
+     * @dev Let a registered lender decrypt the caller's score and loan approval
+     * @notice The grant also covers every later evaluation of the caller
+     */
+    function grantLenderAccess(address lender) external {
+        require(isLender[lender], "Not a lender");
+        
+        if (!hasLenderAccess[msg.sender][lender]) {
+            hasLenderAccess[msg.sender][lender] = true;
+            grantedLenders[msg.sender].push(lender);
+        }
+        
+        if (creditEvaluations[msg.sender].isEvaluated) {
+            _allowLender(msg.sender, lender);
+        }
+        
+        emit LenderAccessGranted(msg.sender, lender, block.timestamp);
+    }
+    
+    /**
+     * @dev Internal function to grant a lender access to a user's results
+     */
+    function _allowLender(address user, address lender) internal {
+        FHE.allow(creditEvaluations[user].encryptedScore, lender);
+        FHE.allow(creditEvaluations[user].isApproved, lender);
+    }
+    
+    /**
+     * @dev Whether an account may read a user's encrypted results
+     */
+    function _canReadResults(address user, address reader) internal view returns (bool) {
+        return reader == user || (isLender[reader] && hasLenderAccess[user][reader]);
+    }
+    
     /**
      * @dev Internal function to grant data access permissions
      */
@@ -262,10 +370,10 @@ contract CreditAnalyzer is SepoliaConfig {
     }
     
     /**
-     * @dev Get user's encrypted credit score (only accessible by user or owner)
+     * @dev Get user's encrypted credit score (only accessible by user or a lender they granted access)
      */
     function getEncryptedCreditScore(address user) external view returns (euint8) {
-        require(msg.sender == user || msg.sender == owner, "Not authorized");
+        require(_canReadResults(user, msg.sender), "Not authorized");
         require(creditEvaluations[user].isEvaluated, "Not evaluated");
         return creditEvaluations[user].encryptedScore;
     }
@@ -274,7 +382,7 @@ contract CreditAnalyzer is SepoliaConfig {
      * @dev Get user's encrypted loan approval status
      */
     function getEncryptedLoanApproval(address user) external view returns (ebool) {
-        require(msg.sender == user || msg.sender == owner, "Not authorized");
+        require(_canReadResults(user, msg.sender), "Not authorized");
         require(creditEvaluations[user].isEvaluated, "Not evaluated");
         return creditEvaluations[user].isApproved;
     }
@@ -1,23 +1,54 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import { ethers } from 'ethers'
 import Header from './components/Header'
 import StatusInfo from './components/StatusInfo'
 import WalletSection from './components/WalletSection'
 import CreditDataForm from './components/CreditDataForm'
+import ScoreSimulator from './components/ScoreSimulator'
 import ActionButtons from './components/ActionButtons'
 import MessageDisplay from './components/MessageDisplay'
 import TransactionStatus from './components/TransactionStatus'
+import TransactionReview from './components/TransactionReview'
+import CreditResult from './components/CreditResult'
+import ActivityTimeline from './components/ActivityTimeline'
+import ContractHealth from './components/ContractHealth'
+import OwnerConsole from './components/OwnerConsole'
+import LenderPortal from './components/LenderPortal'
+import LenderAccess from './components/LenderAccess'
 import Footer from './components/Footer'
 import { useWallet } from './hooks/useWallet'
 import TransactionExplanation from './components/TransactionExplanation'
 import { useContract } from './hooks/useContract'
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from './utils/constants'
-import { TransactionExecutor } from './utils/blockchain'
-import { encryptCreditData, initializeFHE, getFHEStatus } from './utils/fhe'
-import type { CreditData, UserStatus } from './utils/types'
-import type { TransactionStatus as TxStatus } from './utils/blockchain'
+import { useActivityTimeline } from './hooks/useActivityTimeline'
+import { useContractEvents } from './hooks/useContractEvents'
+import { useOwnerConsole } from './hooks/useOwnerConsole'
+import { useLenderPortal } from './hooks/useLenderPortal'
+import { useCreditDraft } from './hooks/useCreditDraft'
+import { useFHEWarmUp } from './hooks/useFHEWarmUp'
+import { I18nContext, useLocaleState } from './hooks/useI18n'
+import { DEFAULT_CHAIN_ID, getNetworkName } from './utils/networks'
+import { TransactionExecutor, resumePendingTransaction, isTransactionSuccessful } from './utils/blockchain'
+import { loadPendingTransactions } from './utils/pendingTransactions'
+import { encryptCreditData, initializeFHE, getFHEStatus, decryptCreditResult, assertEncryptionSafeForChain } from './utils/fhe'
+import type { FHEProgressStage, FHETaskOptions } from './utils/fhe'
+import type { MessageKey } from './utils/i18n'
+import type { CreditData, UserStatus, CreditResult as CreditResultData } from './utils/types'
+import type { TransactionStatus as TxStatus, TransactionReview as TxReview } from './utils/blockchain'
+import { CreditAnalyzerError, parseContractError, describeError } from './utils/errors'
+import { validateCreditData } from './utils/validation'
+import type { FeeStrategy } from './utils/feeStrategies'
+
+// Status message for each step reported by the FHE worker
+const FHE_PROGRESS_MESSAGES: Record<FHEProgressStage, MessageKey> = {
+  loading: 'messages.initializingEncryption',
+  fetchingKeys: 'messages.settingUpFhe',
+  encrypting: 'messages.encrypting'
+}
 
 function App() {
+  const i18n = useLocaleState()
+  const { t } = i18n
+
   // Wallet and contract state
   const { 
     account, 
@@ -27,9 +58,25 @@ function App() {
     chainId, 
     networkName,
     loading: walletLoading,
-    provider
+    provider,
+    signer,
+    switchNetwork,
+    wallets,
+    selectedWallet,
+    ethereum
   } = useWallet()
-  const { contract, loading: contractLoading } = useContract(account)
+  const {
+    contract,
+    chainId: contractChainId,
+    isReadOnly,
+    loading: contractLoading
+  } = useContract(account, chainId, provider)
+  const {
+    events: activityEvents,
+    loading: activityLoading,
+    error: activityError,
+    refresh: refreshActivity
+  } = useActivityTimeline(contract, account)
   
   // Application state
   const [creditData, setCreditData] = useState<CreditData>({
@@ -39,22 +86,44 @@ function App() {
     creditHistory: '',
     paymentHistory: ''
   })
+  const creditDraft = useCreditDraft(account, signer, creditData, setCreditData)
   
   const [userStatus, setUserStatus] = useState<UserStatus>({
     hasSubmitted: false,
     isEvaluated: false,
-    canApprove: false
+    canApprove: false,
+    hasRequestedApproval: false,
+    evaluationOutdated: false
   })
   
+  const [creditResult, setCreditResult] = useState<CreditResultData | null>(null)
+  // Set while the user is replacing data they already submitted
+  const [editingCreditData, setEditingCreditData] = useState(false)
   const [totalEvaluations, setTotalEvaluations] = useState<number>(0)
   const [loading, setLoading] = useState<boolean>(false)
+  // Set while the owner registers or removes a lender
+  const [updatingLender, setUpdatingLender] = useState<boolean>(false)
   const [message, setMessage] = useState<string>('')
   const [showTransactionExplanation, setShowTransactionExplanation] = useState<boolean>(false)
   const [messageType, setMessageType] = useState<'info' | 'error'>('info')
   
   // Transaction state
   const [transactionStatus, setTransactionStatus] = useState<TxStatus | null>(null)
+  const [pendingReview, setPendingReview] = useState<{
+    review: TxReview
+    resolve: (strategy: FeeStrategy | null) => void
+  } | null>(null)
   const [transactionExecutor, setTransactionExecutor] = useState<TransactionExecutor | null>(null)
+  const [resumedTransactions, setResumedTransactions] = useState<number>(0)
+  const ownerConsole = useOwnerConsole(contract, account, transactionExecutor)
+  // Registered lenders read the results of applicants who granted them access
+  const lenderPortal = useLenderPortal(contract, account, signer, chainId, ethereum)
+  const fheStatus = useFHEWarmUp(account, chainId, ethereum)
+  // Aborts the encryption in progress, if any
+  const encryptionAbort = useRef<AbortController | null>(null)
+  // Hashes of resumed transactions still being tracked. Switching accounts away
+  // and back must not start a second tracker for the same transaction.
+  const resumingHashes = useRef<Set<string>>(new Set())
 
   // Initialize transaction executor when provider is available
   useEffect(() => {
@@ -64,14 +133,130 @@ function App() {
     }
   }, [provider])
 
+  // Stop encrypting for an account that disconnected or switched, or when the page is left
+  useEffect(() => {
+    const cancelEncryption = () => encryptionAbort.current?.abort()
+    window.addEventListener('pagehide', cancelEncryption)
+    return () => {
+      window.removeEventListener('pagehide', cancelEncryption)
+      cancelEncryption()
+    }
+  }, [account, chainId])
+
+  // Resume tracking transactions that were still pending before a reload
+  useEffect(() => {
+    if (!provider || !account || !chainId) return
+
+    const pending = loadPendingTransactions(account, chainId)
+      .filter(tx => !resumingHashes.current.has(tx.hash))
+    if (pending.length === 0) return
+
+    let cancelled = false
+
+    const resumeAll = async () => {
+      for (const tx of pending) {
+        if (cancelled) return
+
+        resumingHashes.current.add(tx.hash)
+        try {
+          const outcome = await resumePendingTransaction(provider, tx, (status) => {
+            if (!cancelled) setTransactionStatus(status)
+          })
+          if (cancelled) return
+
+          const method = t(`methods.${tx.method}`)
+          if (outcome.status === 'confirmed') {
+            showMessage(t('messages.resumedConfirmed', { method }))
+          } else if (outcome.status === 'cancelled') {
+            showMessage(t('messages.resumedCancelled', { method }))
+          } else if (outcome.status === 'replaced') {
+            showMessage(t('messages.resumedReplaced', { method }), 'error')
+          } else if (outcome.status === 'timeout') {
+            showMessage(t('messages.resumedTimeout', { method }))
+          } else {
+            showMessage(t('messages.resumedFailed', { method }), 'error')
+          }
+        } catch (error) {
+          console.error('❌ Failed to resume pending transaction:', error)
+        } finally {
+          resumingHashes.current.delete(tx.hash)
+        }
+      }
+
+      if (!cancelled) {
+        setResumedTransactions(count => count + 1)
+      }
+    }
+
+    resumeAll()
+    return () => {
+      cancelled = true
+    }
+  }, [provider, account, chainId])
+
+  // Refresh state once resumed transactions have settled
+  useEffect(() => {
+    if (resumedTransactions > 0 && contract && account) {
+      updateUserStatus()
+      updateStats()
+      refreshActivity()
+    }
+  }, [resumedTransactions])
+
   // Update user status when contract is available
   useEffect(() => {
+    setCreditResult(null)
+    setEditingCreditData(false)
+    if (contract) {
+      updateStats()
+    }
     if (contract && account) {
       updateUserStatus()
-      updateStats()
+    } else {
+      setUserStatus({
+        hasSubmitted: false,
+        isEvaluated: false,
+        canApprove: false,
+        hasRequestedApproval: false,
+        evaluationOutdated: false
+      })
     }
   }, [contract, account])
 
+  // Keep global stats and this user's status current from live events,
+  // including evaluations the owner runs on the user's behalf
+  useContractEvents(contract, (event) => {
+    if (event.event === 'CreditEvaluated') {
+      updateStats()
+    }
+
+    if (ownerConsole.isOwner && !ownerConsole.running) {
+      ownerConsole.refresh()
+    }
+
+    if (lenderPortal.isLender && event.event === 'LoanApprovalRequested') {
+      lenderPortal.refresh()
+    }
+
+    if (account && event.args.user.toLowerCase() === account.toLowerCase()) {
+      updateUserStatus()
+      refreshActivity()
+    } else if (!account) {
+      // Visitors see the public feed
+      refreshActivity()
+    }
+  })
+
+  // Show the review dialog and wait for the user to confirm or cancel
+  const reviewTransaction = (review: TxReview): Promise<FeeStrategy | null> => {
+    return new Promise(resolve => setPendingReview({ review, resolve }))
+  }
+
+  const closeReview = (strategy: FeeStrategy | null) => {
+    pendingReview?.resolve(strategy)
+    setPendingReview(null)
+  }
+
   // Clear transaction status when starting new operations
   const clearTransactionStatus = () => {
     setTransactionStatus(null)
@@ -85,10 +270,27 @@ function App() {
       const hasSubmitted = await contract.hasSubmittedCreditData(account)
       const isEvaluated = await contract.isCreditEvaluated(account)
       
+      // The contract keeps no history of evaluations or approval requests, only the events
+      const [evaluations, updates, approvalRequests] = hasSubmitted
+        ? await Promise.all([
+            contract.queryEvents(contract.filters.CreditEvaluated(account)),
+            contract.queryEvents(contract.filters.CreditDataUpdated(account)),
+            contract.queryEvents(contract.filters.LoanApprovalRequested(account))
+          ])
+        : [[], [], []]
+
+      const lastEvaluation = evaluations[evaluations.length - 1]
+      const lastUpdate = updates[updates.length - 1]
+
       setUserStatus({
         hasSubmitted,
         isEvaluated,
-        canApprove: isEvaluated
+        canApprove: isEvaluated,
+        // Requests made before the current evaluation refer to a discarded score
+        hasRequestedApproval: isEvaluated && !!lastEvaluation &&
+          approvalRequests.some(request => request.blockNumber >= lastEvaluation.blockNumber),
+        evaluationOutdated: !isEvaluated && !!lastEvaluation && !!lastUpdate &&
+          lastUpdate.blockNumber >= lastEvaluation.blockNumber
       })
     } catch (error) {
       console.error('Failed to update user status:', error)
@@ -107,131 +309,107 @@ function App() {
     }
   }
 
-  // Submit credit data to blockchain with complete transaction flow
-  const submitCreditData = async () => {
-    if (!contract || !transactionExecutor) {
-      showMessage('Please connect your wallet first!', 'error')
-      return
-    }
-
-    // Enhanced input validation
-    const incomeStr = creditData.income.trim()
-    const debtStr = creditData.debt.trim()
-    const ageStr = creditData.age.trim()
-    const creditHistoryStr = creditData.creditHistory.trim()
-    const paymentHistoryStr = creditData.paymentHistory.trim()
-
-    if (!incomeStr || !debtStr || !ageStr || !creditHistoryStr || !paymentHistoryStr) {
-      showMessage('Please fill in all fields!', 'error')
-      return
-    }
-
-    const income = parseInt(incomeStr)
-    const debt = parseInt(debtStr)
-    const age = parseInt(ageStr)
-    const creditHistory = parseInt(creditHistoryStr)
-    const paymentHistory = parseInt(paymentHistoryStr)
-
-    // Check for NaN values
-    if (isNaN(income) || isNaN(debt) || isNaN(age) || isNaN(creditHistory) || isNaN(paymentHistory)) {
-      showMessage('Please enter valid numbers for all fields!', 'error')
-      return
-    }
-
-    // Validate ranges
-    if (age < 18 || age > 100) {
-      showMessage('Age must be between 18 and 100!', 'error')
-      return
-    }
-
-    if (paymentHistory < 1 || paymentHistory > 10) {
-      showMessage('Payment history score must be between 1 and 10!', 'error')
-      return
-    }
-
-    if (income <= 0) {
-      showMessage('Income must be greater than 0!', 'error')
-      return
-    }
-
-    if (debt < 0) {
-      showMessage('Debt cannot be negative!', 'error')
-      return
-    }
+  // Submit or replace credit data on the blockchain with complete transaction flow
+  const submitCreditData = async (method: 'submitCreditData' | 'updateCreditData' = 'submitCreditData') => {
+    const isUpdate = method === 'updateCreditData'
 
-    if (creditHistory < 0) {
-      showMessage('Credit history cannot be negative!', 'error')
+    if (!contract || !account || !ethereum || !transactionExecutor) {
+      showMessage(t('messages.connectWallet'), 'error')
       return
     }
 
-    // Additional business logic validation
-    if (income > 10000000) { // 10M max
-      showMessage('Income seems unusually high. Please verify your input.', 'error')
+    const validation = validateCreditData(creditData)
+    if (!validation.values) {
+      const [firstError] = Object.values(validation.errors)
+      showMessage(firstError ? i18n.describe(firstError) : t('messages.checkCreditData'), 'error')
       return
     }
+    const { income, debt, age, creditHistory, paymentHistory } = validation.values
 
-    if (debt > income * 100) { // Max debt 100x income
-      showMessage('Debt amount seems unusually high compared to income.', 'error')
+    // Check balance
+    if (parseFloat(balance) === 0) {
+      showMessage(t('messages.noGasBalance'), 'error')
       return
     }
 
-    // Check balance
-    if (parseFloat(balance) === 0) {
-      showMessage('Insufficient ETH balance to pay for gas fees. Please add Sepolia ETH to your wallet.', 'error')
+    // Never send simulated (plaintext) ciphertexts to a public chain
+    try {
+      assertEncryptionSafeForChain(chainId)
+    } catch (error: any) {
+      showMessage(i18n.describe(describeError(error, isUpdate ? 'messages.updateFailed' : 'messages.submitFailed')), 'error')
       return
     }
 
     try {
       setLoading(true)
       clearTransactionStatus()
-      showMessage('Initializing encryption...')
 
-      console.log('🚀 Starting credit data submission transaction')
+      // Encrypting for an older deployment would waste the user's time and gas
+      await contract.assertMatchesAbi()
+      showMessage(t('messages.initializingEncryption'))
+
+      console.log(`🚀 Starting credit data ${isUpdate ? 'update' : 'submission'} transaction`)
       console.log('📋 Validated data:', { income, debt, age, creditHistory, paymentHistory })
 
+      // Encryption runs in a worker, which reports each step it takes
+      const controller = new AbortController()
+      encryptionAbort.current = controller
+      const encryptionOptions: FHETaskOptions = {
+        signal: controller.signal,
+        onProgress: (stage) => showMessage(t(FHE_PROGRESS_MESSAGES[stage]))
+      }
+
       // Initialize FHE if not already done
-      showMessage('Setting up homomorphic encryption...')
-      await initializeFHE()
+      await initializeFHE({ chainId, provider: ethereum }, encryptionOptions)
       
       // Encrypt the credit data
-      showMessage('Encrypting your financial data...')
-      const encryptedData = await encryptCreditData({
-        income,
-        debt,
-        age,
-        creditHistory,
-        paymentHistory
-      })
+      const encryptedData = await encryptCreditData(
+        {
+          income,
+          debt,
+          age,
+          creditHistory,
+          paymentHistory
+        },
+        contract.address,
+        account,
+        { chainId, provider: ethereum },
+        encryptionOptions
+      )
       
       console.log('🔐 Data encrypted successfully')
-      showMessage('Preparing encrypted transaction...')
+      showMessage(t('messages.preparingTransaction'))
 
       // Execute transaction with encrypted parameters
       await transactionExecutor.executeTransaction(
         contract,
-        'submitCreditData',
+        method,
         [
-          encryptedData.encryptedIncome,
-          encryptedData.encryptedDebt,
-          encryptedData.encryptedAge,
-          encryptedData.encryptedCreditHistory,
-          encryptedData.encryptedPaymentHistory
+          encryptedData.handles.income,
+          encryptedData.handles.debt,
+          encryptedData.handles.age,
+          encryptedData.handles.creditHistory,
+          encryptedData.handles.paymentHistory,
+          encryptedData.inputProof
         ],
         (status) => {
           console.log('📊 Transaction status update:', status)
           setTransactionStatus(status)
           
           if (status.status === 'pending') {
-            showMessage('Transaction sent! Please confirm in MetaMask...')
+            showMessage(t('messages.transactionSent'))
           } else if (status.status === 'confirming') {
-            showMessage(`Transaction confirming... (${status.confirmations} confirmations)`)
-          } else if (status.status === 'confirmed') {
-            showMessage('Encrypted credit data successfully submitted to blockchain! 🟢')
+            showMessage(t('messages.transactionConfirming', {
+              confirmations: status.confirmations,
+              required: status.requiredConfirmations ?? 1
+            }))
+          } else if (isTransactionSuccessful(status)) {
+            showMessage(isUpdate ? t('messages.dataUpdated') : t('messages.dataSubmitted'))
           } else if (status.status === 'failed') {
-            showMessage(status.error || 'Transaction failed', 'error')
+            showMessage(status.error ? i18n.describe(status.error) : t('messages.transactionFailed'), 'error')
           }
         },
-        { retries: 2, confirmations: 1 } // Enable retries
+        { retries: 2, onReview: reviewTransaction } // Enable retries
       )
       
       // Clear form and update status on success
@@ -242,22 +420,24 @@ function App() {
         creditHistory: '',
         paymentHistory: ''
       })
+      await creditDraft.discard()
+
+      // The old score no longer matches the data on chain
+      if (isUpdate) {
+        setEditingCreditData(false)
+        setCreditResult(null)
+      }
       
       await updateUserStatus()
+      await refreshActivity()
       
-      console.log('✅ Credit data submission completed successfully')
+      console.log(`✅ Credit data ${isUpdate ? 'update' : 'submission'} completed successfully`)
 
     } catch (error: any) {
       console.error('❌ Submit credit data failed:', error)
-      
-      // Enhanced error handling
-      let errorMessage = error.message
-      if (errorMessage.includes('Contract call would fail')) {
-        errorMessage = 'Transaction would fail. Please check if you have already submitted data or verify your input values.'
-      }
-      
-      showMessage(errorMessage || 'Failed to submit credit data. Please try again.', 'error')
+      showActionError(error, isUpdate ? 'messages.updateFailed' : 'messages.submitFailed')
     } finally {
+      encryptionAbort.current = null
       setLoading(false)
     }
   }
@@ -265,20 +445,20 @@ function App() {
   // Evaluate credit score using FHE with complete transaction flow
   const evaluateCredit = async () => {
     if (!contract || !account || !transactionExecutor) {
-      showMessage('Please ensure wallet and contract are connected!', 'error')
+      showMessage(t('messages.connectWalletAndContract'), 'error')
       return
     }
     
     // Check balance
     if (parseFloat(balance) === 0) {
-      showMessage('Insufficient ETH balance to pay for gas fees.', 'error')
+      showMessage(t('messages.insufficientGas'), 'error')
       return
     }
 
     try {
       setLoading(true)
       clearTransactionStatus()
-      showMessage('Preparing credit evaluation...')
+      showMessage(t('messages.preparingEvaluation'))
 
       console.log('🧠 Starting credit evaluation transaction for:', account)
       
@@ -291,25 +471,27 @@ function App() {
           setTransactionStatus(status)
           
           if (status.status === 'pending') {
-            showMessage('Transaction sent! Please confirm in MetaMask...')
+            showMessage(t('messages.transactionSent'))
           } else if (status.status === 'confirming') {
-            showMessage('Computing encrypted credit score...')
-          } else if (status.status === 'confirmed') {
-            showMessage('Credit evaluation completed using homomorphic encryption! 🟢')
+            showMessage(t('messages.computingScore'))
+          } else if (isTransactionSuccessful(status)) {
+            showMessage(t('messages.evaluationComplete'))
           } else if (status.status === 'failed') {
-            showMessage(status.error || 'Evaluation failed', 'error')
+            showMessage(status.error ? i18n.describe(status.error) : t('messages.evaluationFailed'), 'error')
           }
-        }
+        },
+        { onReview: reviewTransaction }
       )
       
       await updateUserStatus()
       await updateStats()
+      await refreshActivity()
       
       console.log('✅ Credit evaluation completed successfully')
       
     } catch (error: any) {
       console.error('❌ Credit evaluation failed:', error)
-      showMessage(error.message || 'Failed to evaluate credit score. Please try again.', 'error')
+      showActionError(error, 'messages.evaluateFailed')
     } finally {
       setLoading(false)
     }
@@ -318,20 +500,20 @@ function App() {
   // Request loan approval with complete transaction flow
   const requestLoanApproval = async () => {
     if (!contract || !transactionExecutor) {
-      showMessage('Please ensure wallet and contract are connected!', 'error')
+      showMessage(t('messages.connectWalletAndContract'), 'error')
       return
     }
     
     // Check balance
     if (parseFloat(balance) === 0) {
-      showMessage('Insufficient ETH balance to pay for gas fees.', 'error')
+      showMessage(t('messages.insufficientGas'), 'error')
       return
     }
     
     try {
       setLoading(true)
       clearTransactionStatus()
-      showMessage('Preparing loan approval request...')
+      showMessage(t('messages.preparingApproval'))
 
       console.log('💰 Starting loan approval request transaction')
       
@@ -344,27 +526,188 @@ function App() {
           setTransactionStatus(status)
           
           if (status.status === 'pending') {
-            showMessage('Transaction sent! Please confirm in MetaMask...')
+            showMessage(t('messages.transactionSent'))
           } else if (status.status === 'confirming') {
-            showMessage('Processing loan approval request...')
-          } else if (status.status === 'confirmed') {
-            showMessage('Loan approval request submitted successfully! 🟢')
+            showMessage(t('messages.processingApproval'))
+          } else if (isTransactionSuccessful(status)) {
+            showMessage(t('messages.approvalRequested'))
           } else if (status.status === 'failed') {
-            showMessage(status.error || 'Approval request failed', 'error')
+            showMessage(status.error ? i18n.describe(status.error) : t('messages.approvalFailed'), 'error')
           }
-        }
+        },
+        { onReview: reviewTransaction }
       )
       
+      await updateUserStatus()
+      await refreshActivity()
+      
       console.log('✅ Loan approval request completed successfully')
       
     } catch (error: any) {
       console.error('❌ Loan approval request failed:', error)
-      showMessage(error.message || 'Failed to request loan approval. Please try again.', 'error')
+      showActionError(error, 'messages.requestApprovalFailed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Let a registered lender decrypt the user's current and future results
+  const grantLenderAccess = async (lender: string): Promise<boolean> => {
+    if (!contract || !transactionExecutor) {
+      showMessage(t('messages.connectWalletAndContract'), 'error')
+      return false
+    }
+
+    if (!ethers.isAddress(lender)) {
+      showMessage(t('messages.invalidLenderAddress'), 'error')
+      return false
+    }
+
+    try {
+      setLoading(true)
+      clearTransactionStatus()
+      showMessage(t('messages.preparingGrant'))
+
+      console.log('🏦 Granting lender access to:', lender)
+
+      await transactionExecutor.executeTransaction(
+        contract,
+        'grantLenderAccess',
+        [lender],
+        (status) => {
+          setTransactionStatus(status)
+
+          if (status.status === 'pending') {
+            showMessage(t('messages.transactionSent'))
+          } else if (isTransactionSuccessful(status)) {
+            showMessage(t('messages.lenderAccessGranted'))
+          } else if (status.status === 'failed') {
+            showMessage(status.error ? i18n.describe(status.error) : t('messages.transactionFailed'), 'error')
+          }
+        },
+        { onReview: reviewTransaction }
+      )
+
+      await refreshActivity()
+      return true
+    } catch (error: any) {
+      console.error('❌ Granting lender access failed:', error)
+      showActionError(error, 'messages.grantFailed')
+      return false
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Register or remove an account allowed to review loan requests
+  const setLender = async (lender: string, enabled: boolean): Promise<boolean> => {
+    if (!contract || !transactionExecutor) {
+      showMessage(t('messages.connectWalletAndContract'), 'error')
+      return false
+    }
+
+    if (!ethers.isAddress(lender)) {
+      showMessage(t('messages.invalidLenderAddress'), 'error')
+      return false
+    }
+
+    try {
+      setUpdatingLender(true)
+      clearTransactionStatus()
+
+      console.log(`👑 ${enabled ? 'Registering' : 'Removing'} lender:`, lender)
+
+      await transactionExecutor.executeTransaction(
+        contract,
+        'setLender',
+        [lender, enabled],
+        (status) => {
+          setTransactionStatus(status)
+
+          if (status.status === 'pending') {
+            showMessage(t('messages.transactionSent'))
+          } else if (isTransactionSuccessful(status)) {
+            showMessage(t(enabled ? 'messages.lenderAdded' : 'messages.lenderRemoved'))
+          } else if (status.status === 'failed') {
+            showMessage(status.error ? i18n.describe(status.error) : t('messages.transactionFailed'), 'error')
+          }
+        },
+        { onReview: reviewTransaction }
+      )
+
+      return true
+    } catch (error: any) {
+      console.error('❌ Lender update failed:', error)
+      showActionError(error, 'messages.setLenderFailed')
+      return false
+    } finally {
+      setUpdatingLender(false)
+    }
+  }
+
+  // Decrypt the user's credit score and loan approval via reencryption
+  const decryptResult = async () => {
+    if (!contract || !signer || !ethereum) {
+      showMessage(t('messages.connectWalletAndContract'), 'error')
+      return
+    }
+
+    try {
+      setLoading(true)
+      showMessage(t('messages.signDecryption'))
+
+      console.log('🔓 Starting credit result decryption for:', account)
+      const result = await decryptCreditResult(contract, signer, { chainId, provider: ethereum })
+      setCreditResult(result)
+
+      showMessage(t('messages.resultDecrypted'))
+      console.log('✅ Credit result decryption completed successfully')
+
+    } catch (error: any) {
+      console.error('❌ Credit result decryption failed:', error)
+      showMessage(i18n.describe(describeError(error, 'messages.decryptFailed')), 'error')
     } finally {
       setLoading(false)
     }
   }
 
+  // Resend the pending transaction with higher fees
+  const speedUpTransaction = async () => {
+    if (!transactionExecutor) return
+
+    try {
+      showMessage(t('messages.confirmSpeedUp'))
+      await transactionExecutor.speedUpTransaction()
+      showMessage(t('messages.speedUpSent'))
+    } catch (error: any) {
+      console.error('❌ Speed-up failed:', error)
+      showActionError(parseContractError(error), 'messages.speedUpFailed')
+    }
+  }
+
+  // Replace the pending transaction with an empty transfer to self
+  const cancelTransaction = async () => {
+    if (!transactionExecutor) return
+
+    try {
+      showMessage(t('messages.confirmCancel'))
+      await transactionExecutor.cancelTransaction()
+      showMessage(t('messages.cancelSent'))
+    } catch (error: any) {
+      console.error('❌ Cancellation failed:', error)
+      showActionError(parseContractError(error), 'messages.cancelFailed')
+    }
+  }
+
+  // Switch the wallet to the default supported network
+  const switchToDefaultNetwork = async () => {
+    try {
+      await switchNetwork(DEFAULT_CHAIN_ID)
+    } catch (error: any) {
+      showMessage(i18n.describe(describeError(error, 'messages.switchNetworkFailed')), 'error')
+    }
+  }
+
   // Show message to user
   const showMessage = (text: string, type: 'info' | 'error' = 'info') => {
     setMessage(text)
@@ -378,6 +721,17 @@ function App() {
     }
   }
 
+  // Show why an action failed and what the user can do about it
+  const showActionError = (error: any, fallback: MessageKey) => {
+    // A timed out transaction may still be mined, so it is not shown as an error
+    showMessage(i18n.describe(describeError(error, fallback)), error?.code === 'TRANSACTION_TIMEOUT' ? 'info' : 'error')
+
+    // The contract state moved on, e.g. data was submitted from another tab
+    if (error instanceof CreditAnalyzerError && error.recovery === 'refreshStatus') {
+      updateUserStatus()
+    }
+  }
+
   // Handle preset value selection
   const setPreset = (field: keyof CreditData, value: string) => {
     setCreditData(prev => ({
@@ -387,73 +741,176 @@ function App() {
   }
 
   const isAppLoading = walletLoading || contractLoading || loading
+  const canReplaceTransaction = !!transactionStatus?.hash &&
+    transactionExecutor?.getReplaceableTransaction() === transactionStatus.hash
 
   return (
-    <div className="container">
-      <Header />
+    <I18nContext.Provider value={i18n}>
+      <div className="container">
+        <Header />
       
-      <StatusInfo 
-        userStatus={userStatus}
-        totalEvaluations={totalEvaluations}
-        balance={balance}
-        networkName={networkName}
-        chainId={chainId}
-      />
-      <div className="explanation-btn-container">
-        <button 
-          className="btn btn-accent explanation-btn"
-          onClick={() => setShowTransactionExplanation(true)}
-        >
-          📚 Transaction Explanation
-        </button>
-      </div>
-
-      {!isConnected ? (
-        <WalletSection 
-          onConnect={connectWallet}
-          loading={isAppLoading}
+        <StatusInfo 
+          userStatus={userStatus}
+          totalEvaluations={totalEvaluations}
+          balance={balance}
+          networkName={isConnected ? networkName : t('app.readOnlyNetwork', { network: getNetworkName(contractChainId) })}
+          chainId={isConnected ? chainId : contractChainId}
+          readOnly={isReadOnly}
+          fheBackend={getFHEStatus().backend}
+          fheStatus={fheStatus}
+          onSwitchNetwork={switchToDefaultNetwork}
         />
-      ) : (
-        <>
-          <div className="wallet-address">
-            Connected: {account?.slice(0, 6)}...{account?.slice(-4)}
-          </div>
-
-          {!userStatus.hasSubmitted && (
-            <CreditDataForm
-              creditData={creditData}
-              setCreditData={setCreditData}
-              setPreset={setPreset}
-              onSubmit={submitCreditData}
+        <div className="explanation-btn-container">
+          <button 
+            className="btn btn-accent explanation-btn"
+            onClick={() => setShowTransactionExplanation(true)}
+          >
+            {t('app.explanation')}
+          </button>
+        </div>
+
+        {!isConnected ? (
+          <>
+            <WalletSection 
+              wallets={wallets}
+              selectedWallet={selectedWallet}
+              onConnect={connectWallet}
+              loading={isAppLoading}
+            />
+
+            <ContractHealth
+              contract={contract}
+              networkName={getNetworkName(contractChainId)}
+            />
+
+            <ActivityTimeline
+              title={t('activity.publicTitle')}
+              chainId={contractChainId}
+              events={activityEvents}
+              loading={activityLoading}
+              error={activityError}
+              historyLookback={contract?.historyLookback}
+              onRefresh={refreshActivity}
+            />
+          </>
+        ) : (
+          <>
+            <div className="wallet-address">
+              {t('app.connected', { address: `${account?.slice(0, 6)}...${account?.slice(-4)}` })}
+            </div>
+
+            {(!userStatus.hasSubmitted || editingCreditData) && (
+              <div className="form-layout">
+                <CreditDataForm
+                  mode={userStatus.hasSubmitted ? 'update' : 'submit'}
+                  creditData={creditData}
+                  setCreditData={setCreditData}
+                  setPreset={setPreset}
+                  draft={creditDraft}
+                  onSubmit={() => submitCreditData(userStatus.hasSubmitted ? 'updateCreditData' : 'submitCreditData')}
+                  onCancel={() => setEditingCreditData(false)}
+                  loading={isAppLoading}
+                />
+                <ScoreSimulator
+                  creditData={creditData}
+                  onApply={setCreditData}
+                  disabled={isAppLoading}
+                />
+              </div>
+            )}
+
+            <ActionButtons
+              userStatus={userStatus}
+              onEvaluate={evaluateCredit}
+              onRequestApproval={requestLoanApproval}
+              onUpdateData={editingCreditData ? undefined : () => setEditingCreditData(true)}
               loading={isAppLoading}
             />
-          )}
-
-          <ActionButtons
-            userStatus={userStatus}
-            onEvaluate={evaluateCredit}
-            onRequestApproval={requestLoanApproval}
-            loading={isAppLoading}
-          />
-        </>
-      )}
-
-      <MessageDisplay 
-        message={message}
-        type={messageType}
-        onClose={() => setMessage('')}
-      />
-
-      <TransactionStatus 
-        status={transactionStatus}
-        onClose={() => setTransactionStatus(null)}
-      />
-      <TransactionExplanation 
-        isOpen={showTransactionExplanation}
-        onClose={() => setShowTransactionExplanation(false)}
-      />
-      <Footer />
-    </div>
+
+            {userStatus.isEvaluated && (
+              <CreditResult
+                result={creditResult}
+                onDecrypt={decryptResult}
+                loading={isAppLoading}
+              />
+            )}
+
+            {userStatus.hasSubmitted && (
+              <LenderAccess
+                onGrant={grantLenderAccess}
+                loading={isAppLoading}
+              />
+            )}
+
+            {ownerConsole.isOwner && (
+              <OwnerConsole
+                chainId={chainId}
+                pendingUsers={ownerConsole.pendingUsers}
+                queue={ownerConsole.queue}
+                running={ownerConsole.running}
+                loading={ownerConsole.loading}
+                error={ownerConsole.error}
+                historyLookback={contract?.historyLookback}
+                onEvaluate={ownerConsole.evaluateUsers}
+                onStop={ownerConsole.stop}
+                onClearQueue={ownerConsole.clearQueue}
+                onRefresh={ownerConsole.refresh}
+                onSetLender={setLender}
+                lenderBusy={updatingLender}
+              />
+            )}
+
+            {lenderPortal.isLender && (
+              <LenderPortal
+                chainId={chainId}
+                requests={lenderPortal.requests}
+                decisions={lenderPortal.decisions}
+                approvals={lenderPortal.approvals}
+                loading={lenderPortal.loading}
+                error={lenderPortal.error}
+                historyLookback={contract?.historyLookback}
+                onRefresh={lenderPortal.refresh}
+                onDecrypt={lenderPortal.decryptApproval}
+                onDecide={lenderPortal.recordDecision}
+              />
+            )}
+
+            <ActivityTimeline
+              chainId={chainId}
+              events={activityEvents}
+              loading={activityLoading}
+              error={activityError}
+              historyLookback={contract?.historyLookback}
+              onRefresh={refreshActivity}
+            />
+          </>
+        )}
+
+        <MessageDisplay 
+          message={message}
+          type={messageType}
+          onClose={() => setMessage('')}
+        />
+
+        <TransactionStatus 
+          status={transactionStatus}
+          chainId={chainId}
+          onClose={() => setTransactionStatus(null)}
+          onSpeedUp={canReplaceTransaction ? speedUpTransaction : undefined}
+          onCancel={canReplaceTransaction ? cancelTransaction : undefined}
+        />
+        <TransactionReview
+          review={pendingReview?.review ?? null}
+          onConfirm={(strategy) => closeReview(strategy)}
+          onCancel={() => closeReview(null)}
+        />
+        <TransactionExplanation 
+          isOpen={showTransactionExplanation}
+          onClose={() => setShowTransactionExplanation(false)}
+        />
+        <Footer />
+      </div>
+    </I18nContext.Provider>
   )
 }
 
@@ -1,10 +1,13 @@
 import React from 'react'
 import type { UserStatus } from '../utils/types'
+import { useI18n } from '../hooks/useI18n'
 
 interface ActionButtonsProps {
   userStatus: UserStatus
   onEvaluate: () => Promise<void>
   onRequestApproval: () => Promise<void>
+  // Omitted while the update form is already open
+  onUpdateData?: () => void
   loading: boolean
 }
 
@@ -12,8 +15,11 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
   userStatus,
   onEvaluate,
   onRequestApproval,
+  onUpdateData,
   loading
 }) => {
+  const { t } = useI18n()
+
   const handleEvaluate = async () => {
     try {
       await onEvaluate()
@@ -42,16 +48,16 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
           {loading ? (
             <>
               <span className="loading"></span>
-              Evaluating...
+              {t('actions.evaluating')}
             </>
           ) : (
-            'Evaluate Credit Score with FHE'
+            t('actions.evaluate')
           )}
         </button>
       )}
       
       {/* Loan Approval Button */}
-      {userStatus.canApprove && (
+      {userStatus.canApprove && !userStatus.hasRequestedApproval && (
         <button 
           className="btn btn-accent" 
           onClick={handleRequestApproval}
@@ -60,13 +66,24 @@ const ActionButtons: React.FC<ActionButtonsProps> = ({
           {loading ? (
             <>
               <span className="loading"></span>
-              Requesting...
+              {t('actions.requesting')}
             </>
           ) : (
-            'Request Loan Approval'
+            t('actions.requestApproval')
           )}
         </button>
       )}
+
+      {/* Update Data Button */}
+      {userStatus.hasSubmitted && onUpdateData && (
+        <button 
+          className="btn btn-secondary" 
+          onClick={onUpdateData}
+          disabled={loading}
+        >
+          {t('actions.updateData')}
+        </button>
+      )}
     </div>
   )
 }
@@ -0,0 +1,95 @@
+import React from 'react'
+import type { DecodedEvent, CreditAnalyzerEventName } from '../utils/creditAnalyzer'
+import { getExplorerTxUrl } from '../utils/networks'
+import type { MessageDescriptor } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
+
+interface ActivityTimelineProps {
+  // Defaults to the connected user's activity
+  title?: string
+  chainId: string
+  events: DecodedEvent[]
+  loading: boolean
+  error?: MessageDescriptor | null
+  // Blocks searched when older history is cut off, see CreditAnalyzerClient.historyLookback
+  historyLookback?: number | null
+  onRefresh: () => Promise<void>
+}
+
+const EVENT_ICONS: Record<CreditAnalyzerEventName, string> = {
+  CreditDataSubmitted: '📝',
+  CreditEvaluated: '🧠',
+  LoanApprovalRequested: '💰',
+  CreditDataUpdated: '✏️'
+}
+
+const ActivityTimeline: React.FC<ActivityTimelineProps> = ({
+  title,
+  chainId,
+  events,
+  loading,
+  error,
+  historyLookback,
+  onRefresh
+}) => {
+  const { t, describe, formatDateTime } = useI18n()
+
+  return (
+    <div className="activity-timeline">
+      <div className="activity-header">
+        <h3 className="section-title">{title ?? t('activity.title')}</h3>
+        <button
+          className="activity-refresh"
+          onClick={onRefresh}
+          disabled={loading}
+          aria-label={t('activity.refresh')}
+        >
+          {loading ? <span className="loading"></span> : '↻'}
+        </button>
+      </div>
+
+      {historyLookback && <div className="owner-warning">{t('common.historyTruncated', { blocks: historyLookback })}</div>}
+
+      {error && <div className="activity-empty">⚠️ {describe(error)}</div>}
+
+      {!error && events.length === 0 && (
+        <div className="activity-empty">
+          {loading ? t('activity.loading') : t('activity.empty')}
+        </div>
+      )}
+
+      <ol className="activity-list">
+        {events.map((event) => {
+          const explorerUrl = getExplorerTxUrl(chainId, event.transactionHash)
+          const shortHash = `${event.transactionHash.slice(0, 10)}...${event.transactionHash.slice(-8)}`
+
+          return (
+            <li key={`${event.transactionHash}-${event.logIndex}`} className="activity-item">
+              <span className="activity-icon">{EVENT_ICONS[event.event]}</span>
+              <div className="activity-details">
+                <span className="activity-label">{t(`events.${event.event}`)}</span>
+                <span className="activity-meta">
+                  {formatDateTime(Number(event.args.timestamp) * 1000)} · {t('common.block', { block: String(event.blockNumber) })} ·{' '}
+                  {explorerUrl ? (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="transaction-link"
+                    >
+                      {shortHash}
+                    </a>
+                  ) : (
+                    shortHash
+                  )}
+                </span>
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
+
+export default ActivityTimeline
@@ -0,0 +1,84 @@
+import React, { useState, useEffect } from 'react'
+import type { CreditAnalyzerClient, ContractHealth as ContractHealthData } from '../utils/creditAnalyzer'
+import { useI18n } from '../hooks/useI18n'
+
+interface ContractHealthProps {
+  contract: CreditAnalyzerClient | null
+  networkName: string
+}
+
+const ContractHealth: React.FC<ContractHealthProps> = ({ contract, networkName }) => {
+  const { t, formatNumber } = useI18n()
+  const [health, setHealth] = useState<ContractHealthData | null>(null)
+  const [unreachable, setUnreachable] = useState<boolean>(false)
+
+  useEffect(() => {
+    if (!contract) {
+      setHealth(null)
+      return
+    }
+
+    let cancelled = false
+
+    const checkHealth = async () => {
+      try {
+        const result = await contract.getHealth()
+        if (!cancelled) {
+          setHealth(result)
+          setUnreachable(false)
+        }
+      } catch (error: any) {
+        console.error('Contract health check failed:', error)
+        if (!cancelled) {
+          setUnreachable(true)
+        }
+      }
+    }
+
+    checkHealth()
+    return () => {
+      cancelled = true
+    }
+  }, [contract])
+
+  const getStatusText = () => {
+    if (unreachable) return t('health.unreachable')
+    if (!health) return t('health.checking')
+    if (!health.isDeployed) return t('health.noContract')
+    return health.matchesAbi ? t('health.online') : t('health.outdated')
+  }
+
+  return (
+    <div className="status-info contract-health">
+      <div className="status-row">
+        <span className="status-label">{t('health.contract', { network: networkName })}</span>
+        <span className="status-value">{getStatusText()}</span>
+      </div>
+
+      {contract && (
+        <div className="status-row">
+          <span className="status-label">{t('health.address')}</span>
+          <span className="status-value">
+            {contract.address.slice(0, 6)}...{contract.address.slice(-4)}
+          </span>
+        </div>
+      )}
+
+      {health && (
+        <>
+          <div className="status-row">
+            <span className="status-label">{t('health.latestBlock')}</span>
+            <span className="status-value">{formatNumber(health.blockNumber)}</span>
+          </div>
+
+          <div className="status-row">
+            <span className="status-label">{t('health.latency')}</span>
+            <span className="status-value">{t('health.latencyValue', { ms: health.latencyMs })}</span>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default ContractHealth
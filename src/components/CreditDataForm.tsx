@@ -1,6 +1,11 @@
-import React from 'react'
+import React, { useState } from 'react'
 import PresetButtons from './PresetButtons'
+import StatementImporter from './StatementImporter'
+import DraftControls from './DraftControls'
 import type { CreditData } from '../utils/types'
+import type { CreditDraftState } from '../hooks/useCreditDraft'
+import { validateCreditData } from '../utils/validation'
+import { useI18n } from '../hooks/useI18n'
 import {
   INCOME_PRESETS,
   DEBT_PRESETS,
@@ -8,22 +13,37 @@ import {
   CREDIT_HISTORY_PRESETS,
   PAYMENT_HISTORY_PRESETS
 } from '../utils/constants'
+import type { Preset } from '../utils/constants'
 
 interface CreditDataFormProps {
+  // 'update' replaces data already on chain and asks for confirmation first
+  mode?: 'submit' | 'update'
   creditData: CreditData
   setCreditData: React.Dispatch<React.SetStateAction<CreditData>>
   setPreset: (field: keyof CreditData, value: string) => void
+  // Encrypted local draft of the form, when a wallet is connected
+  draft?: CreditDraftState
   onSubmit: () => Promise<void>
+  onCancel?: () => void
   loading: boolean
 }
 
 const CreditDataForm: React.FC<CreditDataFormProps> = ({
+  mode = 'submit',
   creditData,
   setCreditData,
   setPreset,
+  draft,
   onSubmit,
+  onCancel,
   loading
 }) => {
+  const [confirmingUpdate, setConfirmingUpdate] = useState(false)
+  const [touched, setTouched] = useState<Set<keyof CreditData>>(new Set())
+  const isUpdate = mode === 'update'
+  const { t, describe, formatCurrency } = useI18n()
+  const { errors, isValid } = validateCreditData(creditData)
+
   const handleInputChange = (field: keyof CreditData, value: string) => {
     setCreditData(prev => ({
       ...prev,
@@ -31,62 +51,128 @@ const CreditDataForm: React.FC<CreditDataFormProps> = ({
     }))
   }
 
+  const markTouched = (field: keyof CreditData) => {
+    setTouched(current => (current.has(field) ? current : new Set(current).add(field)))
+  }
+
+  // Errors appear once a field has a value or has been left empty
+  const fieldError = (field: keyof CreditData) =>
+    (touched.has(field) || creditData[field].trim() !== '') ? errors[field] : undefined
+
+  const renderError = (field: keyof CreditData) => {
+    const error = fieldError(field)
+    return error ? <div className="input-error">{describe(error)}</div> : null
+  }
+
+  const currencyPresets = (presets: Preset[]) =>
+    presets.map(preset => ({ ...preset, label: formatCurrency(preset.value) }))
+
+  const translatedPresets = (presets: Preset[]) =>
+    presets.map(preset => (preset.message ? { ...preset, label: describe(preset.message) } : preset))
+
   const handleSubmit = async () => {
     try {
+      setConfirmingUpdate(false)
       await onSubmit()
     } catch (error) {
       console.error('Submit failed:', error)
     }
   }
 
+  // The previous values are encrypted on chain, so the confirmation cannot show
+  // what changed. It explains the consequences instead.
+  if (isUpdate && confirmingUpdate) {
+    return (
+      <div className="form-section">
+        <h3 className="section-title">{t('form.confirmTitle')}</h3>
+        <div className="update-confirmation">
+          <p>{t('form.confirmEncrypted')}</p>
+          <p>{t('form.confirmReplace')}</p>
+          <p>{t('form.confirmDiscard')}</p>
+        </div>
+        <div className="form-actions">
+          <button 
+            className="btn btn-secondary" 
+            onClick={() => setConfirmingUpdate(false)}
+            disabled={loading}
+          >
+            {t('form.back')}
+          </button>
+          <button 
+            className="btn btn-primary" 
+            onClick={handleSubmit}
+            disabled={loading || !isValid}
+          >
+            {t('form.confirmUpdate')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="form-section">
-      <h3 className="section-title">Submit Confidential Credit Data</h3>
+      <h3 className="section-title">
+        {isUpdate ? t('form.updateTitle') : t('form.submitTitle')}
+      </h3>
+
+      {draft && <DraftControls draft={draft} disabled={loading} />}
+
+      <StatementImporter
+        onImport={(data) => setCreditData(prev => ({ ...prev, ...data }))}
+        disabled={loading}
+      />
       
       <div className="input-group">
-        <label className="input-label">Monthly Income (USD)</label>
+        <label className="input-label">{t('form.income')}</label>
         <input
           type="number"
-          className="input-field"
-          placeholder="Enter monthly income"
+          className={`input-field ${fieldError('income') ? 'invalid' : ''}`}
+          placeholder={t('form.incomePlaceholder')}
           value={creditData.income}
           onChange={(e) => handleInputChange('income', e.target.value)}
+          onBlur={() => markTouched('income')}
           disabled={loading}
         />
+        {renderError('income')}
         <PresetButtons
-          presets={INCOME_PRESETS}
+          presets={currencyPresets(INCOME_PRESETS)}
           onSelect={(value) => setPreset('income', value.toString())}
         />
       </div>
 
       <div className="input-group">
-        <label className="input-label">Total Debt (USD)</label>
+        <label className="input-label">{t('form.debt')}</label>
         <input
           type="number"
-          className="input-field"
-          placeholder="Enter total debt"
+          className={`input-field ${fieldError('debt') ? 'invalid' : ''}`}
+          placeholder={t('form.debtPlaceholder')}
           value={creditData.debt}
           onChange={(e) => handleInputChange('debt', e.target.value)}
+          onBlur={() => markTouched('debt')}
           disabled={loading}
         />
+        {renderError('debt')}
         <PresetButtons
-          presets={DEBT_PRESETS}
+          presets={currencyPresets(DEBT_PRESETS)}
           onSelect={(value) => setPreset('debt', value.toString())}
         />
       </div>
 
       <div className="input-group">
-        <label className="input-label">Age</label>
+        <label className="input-label">{t('form.age')}</label>
         <input
           type="number"
-          className="input-field"
-          placeholder="Enter your age"
+          className={`input-field ${fieldError('age') ? 'invalid' : ''}`}
+          placeholder={t('form.agePlaceholder')}
           min="18"
           max="100"
           value={creditData.age}
           onChange={(e) => handleInputChange('age', e.target.value)}
+          onBlur={() => markTouched('age')}
           disabled={loading}
         />
+        {renderError('age')}
         <PresetButtons
           presets={AGE_PRESETS}
           onSelect={(value) => setPreset('age', value.toString())}
@@ -94,54 +180,71 @@ const CreditDataForm: React.FC<CreditDataFormProps> = ({
       </div>
 
       <div className="input-group">
-        <label className="input-label">Credit History (Years)</label>
+        <label className="input-label">{t('form.creditHistory')}</label>
         <input
           type="number"
-          className="input-field"
-          placeholder="Years of credit history"
+          className={`input-field ${fieldError('creditHistory') ? 'invalid' : ''}`}
+          placeholder={t('form.creditHistoryPlaceholder')}
           min="0"
           value={creditData.creditHistory}
           onChange={(e) => handleInputChange('creditHistory', e.target.value)}
+          onBlur={() => markTouched('creditHistory')}
           disabled={loading}
         />
+        {renderError('creditHistory')}
         <PresetButtons
-          presets={CREDIT_HISTORY_PRESETS}
+          presets={translatedPresets(CREDIT_HISTORY_PRESETS)}
           onSelect={(value) => setPreset('creditHistory', value.toString())}
         />
       </div>
 
       <div className="input-group">
-        <label className="input-label">Payment History Score (1-10)</label>
+        <label className="input-label">{t('form.paymentHistory')}</label>
         <input
           type="number"
-          className="input-field"
-          placeholder="Payment reliability score"
+          className={`input-field ${fieldError('paymentHistory') ? 'invalid' : ''}`}
+          placeholder={t('form.paymentHistoryPlaceholder')}
           min="1"
           max="10"
           value={creditData.paymentHistory}
           onChange={(e) => handleInputChange('paymentHistory', e.target.value)}
+          onBlur={() => markTouched('paymentHistory')}
           disabled={loading}
         />
+        {renderError('paymentHistory')}
         <PresetButtons
-          presets={PAYMENT_HISTORY_PRESETS}
+          presets={translatedPresets(PAYMENT_HISTORY_PRESETS)}
           onSelect={(value) => setPreset('paymentHistory', value.toString())}
         />
       </div>
 
-      <button 
-        className="btn btn-primary" 
-        onClick={handleSubmit}
-        disabled={loading}
-      >
-        {loading ? (
-          <>
-            <span className="loading"></span>
-            Submitting...
-          </>
-        ) : (
-          'Submit Encrypted Data to Blockchain'
+      <div className="form-actions">
+        {isUpdate && onCancel && (
+          <button 
+            className="btn btn-secondary" 
+            onClick={onCancel}
+            disabled={loading}
+          >
+            {t('form.cancel')}
+          </button>
         )}
-      </button>
+        <button 
+          className="btn btn-primary" 
+          onClick={isUpdate ? () => setConfirmingUpdate(true) : handleSubmit}
+          disabled={loading || !isValid}
+        >
+          {loading ? (
+            <>
+              <span className="loading"></span>
+              {t('form.submitting')}
+            </>
+          ) : isUpdate ? (
+            t('form.reviewUpdate')
+          ) : (
+            t('form.submit')
+          )}
+        </button>
+      </div>
     </div>
   )
 }
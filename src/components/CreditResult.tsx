@@ -0,0 +1,71 @@
+import React from 'react'
+import type { CreditResult as CreditResultData } from '../utils/types'
+import { CREDIT_SCORE_BANDS } from '../utils/constants'
+import { useI18n } from '../hooks/useI18n'
+
+interface CreditResultProps {
+  result: CreditResultData | null
+  onDecrypt: () => Promise<void>
+  loading: boolean
+}
+
+const CreditResult: React.FC<CreditResultProps> = ({ result, onDecrypt, loading }) => {
+  const { t } = useI18n()
+
+  const handleDecrypt = async () => {
+    try {
+      await onDecrypt()
+    } catch (error) {
+      console.error('Decryption failed:', error)
+    }
+  }
+
+  const band = result ? CREDIT_SCORE_BANDS[result.score] : undefined
+
+  return (
+    <div className="credit-result">
+      <h3 className="section-title">{t('result.title')}</h3>
+
+      {result ? (
+        <>
+          <div className="status-row">
+            <span className="status-label">{t('result.band')}</span>
+            <span className="status-value">
+              {t('common.score', { score: result.score })}
+              {band && ` - ${t('bands.detail', { label: { key: band.label }, range: band.range })}`}
+            </span>
+          </div>
+
+          <div className="status-row">
+            <span className="status-label">{t('result.approval')}</span>
+            <span className={`status-value ${result.approved ? 'result-approved' : 'result-denied'}`}>
+              {result.approved ? t('result.approved') : t('result.notApproved')}
+            </span>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="credit-result-hint">
+            {t('result.hint')}
+          </p>
+          <button
+            className="btn btn-secondary"
+            onClick={handleDecrypt}
+            disabled={loading}
+          >
+            {loading ? (
+              <>
+                <span className="loading"></span>
+                {t('common.decrypting')}
+              </>
+            ) : (
+              t('result.decrypt')
+            )}
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default CreditResult
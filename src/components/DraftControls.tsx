@@ -0,0 +1,48 @@
+import React from 'react'
+import type { CreditDraftState } from '../hooks/useCreditDraft'
+import { useI18n } from '../hooks/useI18n'
+
+interface DraftControlsProps {
+  draft: CreditDraftState
+  disabled?: boolean
+}
+
+const DraftControls: React.FC<DraftControlsProps> = ({ draft, disabled = false }) => {
+  const { t, describe, formatTime } = useI18n()
+  const savedTime = draft.savedAt ? formatTime(draft.savedAt) : null
+
+  return (
+    <div className="draft-controls">
+      <span className="activity-meta">
+        {draft.enabled
+          ? savedTime ? t('draft.savedAt', { time: savedTime }) : t('draft.autosave')
+          : savedTime ? t('draft.available') : t('draft.offer')}
+      </span>
+
+      {!draft.enabled && (
+        <button className="btn btn-secondary" onClick={draft.enable} disabled={disabled || draft.unlocking}>
+          {draft.unlocking ? (
+            <>
+              <span className="loading"></span>
+              {t('draft.waitingSignature')}
+            </>
+          ) : savedTime ? (
+            t('draft.signRestore')
+          ) : (
+            t('draft.signEnable')
+          )}
+        </button>
+      )}
+
+      {savedTime && (
+        <button className="btn btn-secondary" onClick={draft.discard} disabled={disabled || draft.unlocking}>
+          {t('draft.discard')}
+        </button>
+      )}
+
+      {draft.error && <div className="input-error">⚠️ {describe(draft.error)}</div>}
+    </div>
+  )
+}
+
+export default DraftControls
@@ -1,10 +1,13 @@
 import React from 'react'
+import { useI18n } from '../hooks/useI18n'
 
 const Footer: React.FC = () => {
+  const { t } = useI18n()
+
   return (
     <div className="footer">
-      <p>🛡️ All data encrypted using Zama's FHE technology</p>
-      <p>Privacy-first credit scoring on Sepolia testnet</p>
+      <p>{t('footer.encrypted')}</p>
+      <p>{t('footer.privacy')}</p>
     </div>
   )
 }
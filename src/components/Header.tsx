@@ -1,11 +1,27 @@
 import React from 'react'
+import { useI18n } from '../hooks/useI18n'
+import { LOCALES } from '../utils/i18n'
+import type { Locale } from '../utils/i18n'
 
 const Header: React.FC = () => {
+  const { t, locale, setLocale } = useI18n()
+
   return (
     <div className="header">
-      <h1 className="title">🔐 Credit Analyzer</h1>
+      <div className="language-switcher">
+        <select
+          value={locale}
+          onChange={(e) => setLocale(e.target.value as Locale)}
+          aria-label={t('header.language')}
+        >
+          {LOCALES.map(option => (
+            <option key={option.locale} value={option.locale}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      <h1 className="title">{t('header.title')}</h1>
       <p className="subtitle">
-        Confidential Credit Evaluation using Fully Homomorphic Encryption
+        {t('header.subtitle')}
       </p>
     </div>
   )
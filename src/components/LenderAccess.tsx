@@ -0,0 +1,55 @@
+import React, { useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
+
+interface LenderAccessProps {
+  // Resolves to whether the grant went through
+  onGrant: (lender: string) => Promise<boolean>
+  loading: boolean
+}
+
+const LenderAccess: React.FC<LenderAccessProps> = ({ onGrant, loading }) => {
+  const { t } = useI18n()
+  const [lender, setLender] = useState('')
+
+  const handleGrant = async () => {
+    try {
+      if (await onGrant(lender.trim())) setLender('')
+    } catch (error) {
+      console.error('Granting lender access failed:', error)
+    }
+  }
+
+  return (
+    <div className="credit-result">
+      <h3 className="section-title">{t('lenderAccess.title')}</h3>
+      <p className="credit-result-hint">{t('lenderAccess.hint')}</p>
+
+      <div className="lender-request-actions">
+        <input
+          type="text"
+          className="lender-note"
+          placeholder={t('lenderAccess.placeholder')}
+          value={lender}
+          onChange={(e) => setLender(e.target.value)}
+          disabled={loading}
+        />
+        <button
+          className="btn btn-secondary"
+          onClick={handleGrant}
+          disabled={loading || !lender.trim()}
+        >
+          {loading ? (
+            <>
+              <span className="loading"></span>
+              {t('lenderAccess.granting')}
+            </>
+          ) : (
+            t('lenderAccess.grant')
+          )}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default LenderAccess
@@ -0,0 +1,188 @@
+import React, { useState } from 'react'
+import type { LoanRequest, ApprovalDecryption } from '../hooks/useLenderPortal'
+import type { LenderDecision, LenderDecisionOutcome, DecisionExportFormat } from '../utils/lenderDecisions'
+import { exportDecisions } from '../utils/lenderDecisions'
+import { getExplorerTxUrl } from '../utils/networks'
+import type { MessageDescriptor, MessageKey } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
+
+interface LenderPortalProps {
+  chainId: string
+  requests: LoanRequest[]
+  decisions: LenderDecision[]
+  approvals: Record<string, ApprovalDecryption>
+  loading: boolean
+  error?: MessageDescriptor | null
+  // Blocks searched when older history is cut off, see CreditAnalyzerClient.historyLookback
+  historyLookback?: number | null
+  onRefresh: () => Promise<void>
+  onDecrypt: (applicant: string) => Promise<void>
+  onDecide: (request: LoanRequest, outcome: LenderDecisionOutcome, note: string) => void
+}
+
+const OUTCOME_LABELS: Record<LenderDecisionOutcome, MessageKey> = {
+  approved: 'lender.outcomeApproved',
+  declined: 'lender.outcomeDeclined'
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const downloadExport = (decisions: LenderDecision[], format: DecisionExportFormat) => {
+  const { filename, mimeType, content } = exportDecisions(decisions, format)
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  // Revoking right away can cancel the download before the browser starts it
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const LenderPortal: React.FC<LenderPortalProps> = ({
+  chainId,
+  requests,
+  decisions,
+  approvals,
+  loading,
+  error,
+  historyLookback,
+  onRefresh,
+  onDecrypt,
+  onDecide
+}) => {
+  const { t, describe, formatDateTime } = useI18n()
+  const [notes, setNotes] = useState<Record<string, string>>({})
+
+  // Request and decision times are Unix timestamps in seconds
+  const formatTime = (timestamp: number) => formatDateTime(timestamp * 1000)
+
+  const decide = (request: LoanRequest, outcome: LenderDecisionOutcome) => {
+    onDecide(request, outcome, notes[request.id] || '')
+    setNotes(current => ({ ...current, [request.id]: '' }))
+  }
+
+  const renderApproval = (request: LoanRequest) => {
+    if (!request.hasAccess) {
+      return <span className="activity-meta">{t('lender.noAccess')}</span>
+    }
+
+    const approval = approvals[request.applicant.toLowerCase()]
+
+    if (approval?.status === 'decrypted') {
+      return (
+        <span className={`lender-approval ${approval.approved ? 'approved' : 'rejected'}`}>
+          {t('lender.contractResult', { result: { key: approval.approved ? 'lender.eligible' : 'lender.notEligible' } })}
+        </span>
+      )
+    }
+
+    return (
+      <>
+        <button
+          className="btn btn-secondary"
+          onClick={() => onDecrypt(request.applicant)}
+          disabled={approval?.status === 'decrypting'}
+        >
+          {approval?.status === 'decrypting' ? (
+            <>
+              <span className="loading"></span>
+              {t('common.decrypting')}
+            </>
+          ) : (
+            t('lender.decrypt')
+          )}
+        </button>
+        {approval?.status === 'failed' && approval.error && <span className="owner-item-error">{describe(approval.error)}</span>}
+      </>
+    )
+  }
+
+  return (
+    <div className="lender-portal">
+      <div className="activity-header">
+        <h3 className="section-title">{t('lender.title')}</h3>
+        <button className="activity-refresh" onClick={onRefresh} disabled={loading} aria-label={t('lender.refresh')}>
+          {loading ? <span className="loading"></span> : '↻'}
+        </button>
+      </div>
+
+      {historyLookback && <div className="owner-warning">{t('common.historyTruncated', { blocks: historyLookback })}</div>}
+
+      {error && <div className="activity-empty">⚠️ {describe(error)}</div>}
+
+      {!error && requests.length === 0 && (
+        <div className="activity-empty">
+          {loading ? t('lender.loading') : t('lender.empty')}
+        </div>
+      )}
+
+      {requests.length > 0 && (
+        <ul className="lender-list">
+          {requests.map(request => {
+            const decision = decisions.find(recorded => recorded.requestId === request.id)
+            const explorerUrl = getExplorerTxUrl(chainId, request.transactionHash)
+
+            return (
+              <li key={request.id} className="lender-request">
+                <div className="lender-request-header">
+                  <span className="owner-item-address" title={request.applicant}>{shortAddress(request.applicant)}</span>
+                  {explorerUrl && (
+                    <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="transaction-link">
+                      {t('common.viewTx')}
+                    </a>
+                  )}
+                </div>
+                <div className="activity-meta">
+                  {t('lender.requested', { time: formatTime(request.requestedAt) })}
+                  {' · '}
+                  {request.evaluatedAt !== null
+                    ? t('lender.evaluated', { time: formatTime(request.evaluatedAt) })
+                    : t('lender.notEvaluated')}
+                </div>
+
+                <div className="lender-request-actions">
+                  {renderApproval(request)}
+                </div>
+
+                {decision ? (
+                  <div className={`lender-decision ${decision.outcome}`}>
+                    {t('lender.decidedOn', { outcome: { key: OUTCOME_LABELS[decision.outcome] }, time: formatTime(decision.decidedAt) })}
+                    {decision.note && <span className="lender-decision-note">“{decision.note}”</span>}
+                  </div>
+                ) : (
+                  <div className="lender-request-actions">
+                    <input
+                      type="text"
+                      className="lender-note"
+                      placeholder={t('lender.notePlaceholder')}
+                      value={notes[request.id] || ''}
+                      onChange={(e) => setNotes(current => ({ ...current, [request.id]: e.target.value }))}
+                    />
+                    <button className="btn btn-primary" onClick={() => decide(request, 'approved')}>
+                      {t('lender.approve')}
+                    </button>
+                    <button className="btn btn-secondary" onClick={() => decide(request, 'declined')}>
+                      {t('lender.decline')}
+                    </button>
+                  </div>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <div className="lender-export">
+        <span className="activity-meta">{t('lender.recorded', { count: decisions.length })}</span>
+        <button className="btn btn-secondary" onClick={() => downloadExport(decisions, 'csv')} disabled={decisions.length === 0}>
+          {t('lender.exportCsv')}
+        </button>
+        <button className="btn btn-secondary" onClick={() => downloadExport(decisions, 'json')} disabled={decisions.length === 0}>
+          {t('lender.exportJson')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default LenderPortal
@@ -1,4 +1,5 @@
 import React from 'react'
+import { useI18n } from '../hooks/useI18n'
 
 interface MessageDisplayProps {
   message: string
@@ -7,6 +8,8 @@ interface MessageDisplayProps {
 }
 
 const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, type, onClose }) => {
+  const { t } = useI18n()
+
   if (!message) return null
 
   return (
@@ -16,7 +19,7 @@ const MessageDisplay: React.FC<MessageDisplayProps> = ({ message, type, onClose
         <button 
           className="message-close"
           onClick={onClose}
-          aria-label="Close message"
+          aria-label={t('messages.close')}
         >
           ×
         </button>
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react'
+import type { PendingEvaluation, EvaluationQueueItem } from '../hooks/useOwnerConsole'
+import { getExplorerTxUrl } from '../utils/networks'
+import type { MessageDescriptor } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
+
+interface OwnerConsoleProps {
+  chainId: string
+  pendingUsers: PendingEvaluation[]
+  queue: EvaluationQueueItem[]
+  running: boolean
+  loading: boolean
+  error?: MessageDescriptor | null
+  // Blocks searched when older history is cut off, see CreditAnalyzerClient.historyLookback
+  historyLookback?: number | null
+  onEvaluate: (users: string[]) => Promise<void>
+  onStop: () => void
+  onClearQueue: () => void
+  onRefresh: () => Promise<void>
+  // Resolves to whether the update went through
+  onSetLender: (lender: string, enabled: boolean) => Promise<boolean>
+  lenderBusy: boolean
+}
+
+const QUEUE_STATUS_ICONS: Record<EvaluationQueueItem['status'], string> = {
+  queued: '⏸️',
+  running: '⏳',
+  evaluated: '✅',
+  failed: '❌',
+  skipped: '⏭️'
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`
+
+const OwnerConsole: React.FC<OwnerConsoleProps> = ({
+  chainId,
+  pendingUsers,
+  queue,
+  running,
+  loading,
+  error,
+  historyLookback,
+  onEvaluate,
+  onStop,
+  onClearQueue,
+  onRefresh,
+  onSetLender,
+  lenderBusy
+}) => {
+  const { t, describe } = useI18n()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [lender, setLender] = useState('')
+
+  // Drop selections for users that are no longer pending
+  useEffect(() => {
+    setSelected(current => new Set(
+      Array.from(current).filter(user => pendingUsers.some(pending => pending.user === user))
+    ))
+  }, [pendingUsers])
+
+  const toggleUser = (user: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(user)) {
+        next.delete(user)
+      } else {
+        next.add(user)
+      }
+      return next
+    })
+  }
+
+  const allSelected = pendingUsers.length > 0 && selected.size === pendingUsers.length
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(pendingUsers.map(pending => pending.user)))
+  }
+
+  const handleEvaluate = async () => {
+    try {
+      await onEvaluate(pendingUsers.filter(pending => selected.has(pending.user)).map(pending => pending.user))
+      setSelected(new Set())
+    } catch (error) {
+      console.error('Batch evaluation failed:', error)
+    }
+  }
+
+  const handleSetLender = async (enabled: boolean) => {
+    try {
+      if (await onSetLender(lender.trim(), enabled)) setLender('')
+    } catch (error) {
+      console.error('Lender update failed:', error)
+    }
+  }
+
+  const finished = queue.filter(item => item.status === 'evaluated' || item.status === 'failed' || item.status === 'skipped').length
+  const failed = queue.filter(item => item.status === 'failed').length
+
+  return (
+    <div className="owner-console">
+      <div className="activity-header">
+        <h3 className="section-title">{t('owner.title')}</h3>
+        <button className="activity-refresh" onClick={onRefresh} disabled={loading || running}>
+          {loading ? <span className="loading"></span> : '↻'}
+        </button>
+      </div>
+
+      {historyLookback && <div className="owner-warning">{t('common.historyTruncated', { blocks: historyLookback })}</div>}
+
+      {error && <div className="activity-empty">⚠️ {describe(error)}</div>}
+
+      {queue.length > 0 && (
+        <div className="owner-queue">
+          <div className="owner-queue-summary">
+            <span>
+              {t(running ? 'owner.evaluatingProgress' : 'owner.finishedProgress', { finished, total: queue.length })}
+              {failed > 0 && ` · ${t('owner.failedCount', { count: failed })}`}
+            </span>
+            {running ? (
+              <button className="btn btn-secondary" onClick={onStop}>{t('owner.stop')}</button>
+            ) : (
+              <button className="btn btn-secondary" onClick={onClearQueue}>{t('owner.clear')}</button>
+            )}
+          </div>
+          <div className="progress-bar">
+            <div className="progress-fill" style={{ width: `${(finished / queue.length) * 100}%` }}></div>
+          </div>
+          <ul className="owner-list">
+            {queue.map(item => {
+              const explorerUrl = item.hash ? getExplorerTxUrl(chainId, item.hash) : null
+              return (
+                <li key={item.user} className={`owner-item queue-${item.status}`}>
+                  <span className="owner-item-icon">{QUEUE_STATUS_ICONS[item.status]}</span>
+                  <span className="owner-item-address">{shortAddress(item.user)}</span>
+                  {explorerUrl && (
+                    <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="transaction-link">
+                      {t('common.viewTx')}
+                    </a>
+                  )}
+                  {item.error && <span className="owner-item-error">{describe(item.error)}</span>}
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {pendingUsers.length === 0 ? (
+        <div className="activity-empty">
+          {loading ? t('owner.loading') : t('owner.empty')}
+        </div>
+      ) : (
+        <>
+          <div className="owner-toolbar">
+            <label className="owner-select-all">
+              <input type="checkbox" checked={allSelected} onChange={toggleAll} disabled={running} />
+              {t('owner.selectAll', { count: pendingUsers.length })}
+            </label>
+            <button
+              className="btn btn-primary"
+              onClick={handleEvaluate}
+              disabled={running || selected.size === 0}
+            >
+              {running ? (
+                <>
+                  <span className="loading"></span>
+                  {t('owner.evaluating')}
+                </>
+              ) : (
+                t('owner.evaluateSelected', { count: selected.size })
+              )}
+            </button>
+          </div>
+          <ul className="owner-list">
+            {pendingUsers.map(pending => (
+              <li key={pending.user} className="owner-item">
+                <input
+                  type="checkbox"
+                  checked={selected.has(pending.user)}
+                  onChange={() => toggleUser(pending.user)}
+                  disabled={running}
+                />
+                <span className="owner-item-address" title={pending.user}>{shortAddress(pending.user)}</span>
+                <span className="activity-meta">{t('common.block', { block: String(pending.submittedAtBlock) })}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div className="owner-lenders">
+        <h4 className="owner-subtitle">{t('owner.lendersTitle')}</h4>
+        <div className="lender-request-actions">
+          <input
+            type="text"
+            className="lender-note"
+            placeholder={t('owner.lenderPlaceholder')}
+            value={lender}
+            onChange={(e) => setLender(e.target.value)}
+            disabled={lenderBusy}
+          />
+          <button className="btn btn-primary" onClick={() => handleSetLender(true)} disabled={lenderBusy || !lender.trim()}>
+            {t('owner.addLender')}
+          </button>
+          <button className="btn btn-secondary" onClick={() => handleSetLender(false)} disabled={lenderBusy || !lender.trim()}>
+            {t('owner.removeLender')}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default OwnerConsole
@@ -1,9 +1,5 @@
 import React from 'react'
-
-interface Preset {
-  label: string
-  value: number
-}
+import type { Preset } from '../utils/constants'
 
 interface PresetButtonsProps {
   presets: Preset[]
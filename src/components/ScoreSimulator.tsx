@@ -0,0 +1,115 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import type { CreditData } from '../utils/types'
+import { CREDIT_SCORE_BANDS } from '../utils/constants'
+import { parseCreditInputs, simulateCreditScore } from '../utils/creditScore'
+import type { CreditInputs } from '../utils/creditScore'
+import type { MessageKey } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
+import type { I18n } from '../hooks/useI18n'
+
+interface ScoreSimulatorProps {
+  creditData: CreditData
+  onApply: (data: CreditData) => void
+  disabled?: boolean
+}
+
+const SLIDERS: { field: keyof CreditInputs; label: MessageKey; min: number; max: number; step: number; format?: (value: number, i18n: I18n) => string }[] = [
+  { field: 'income', label: 'fieldLabel.income', min: 0, max: 20000, step: 250, format: (value, i18n) => i18n.formatCurrency(value) },
+  { field: 'debt', label: 'fieldLabel.debt', min: 0, max: 80000, step: 1000, format: (value, i18n) => i18n.formatCurrency(value) },
+  { field: 'age', label: 'fieldLabel.age', min: 18, max: 100, step: 1 },
+  { field: 'creditHistory', label: 'fieldLabel.creditHistory', min: 0, max: 40, step: 1, format: (value, i18n) => i18n.t('presets.years', { years: value }) },
+  { field: 'paymentHistory', label: 'fieldLabel.paymentHistory', min: 1, max: 10, step: 1, format: (value, i18n) => i18n.t('simulator.outOfTen', { value }) }
+]
+
+const DEFAULT_INPUTS: CreditInputs = {
+  income: 5000,
+  debt: 10000,
+  age: 30,
+  creditHistory: 5,
+  paymentHistory: 7
+}
+
+const ScoreSimulator: React.FC<ScoreSimulatorProps> = ({ creditData, onApply, disabled = false }) => {
+  const i18n = useI18n()
+  const { t } = i18n
+  const [inputs, setInputs] = useState<CreditInputs>(() => parseCreditInputs(creditData) || DEFAULT_INPUTS)
+
+  // Follow the form whenever it holds a complete set of values
+  useEffect(() => {
+    const parsed = parseCreditInputs(creditData)
+    if (parsed) setInputs(parsed)
+  }, [creditData])
+
+  const simulation = useMemo(() => simulateCreditScore(inputs), [inputs])
+  const band = CREDIT_SCORE_BANDS[simulation.score]
+
+  const applyToForm = () => {
+    onApply({
+      income: inputs.income.toString(),
+      debt: inputs.debt.toString(),
+      age: inputs.age.toString(),
+      creditHistory: inputs.creditHistory.toString(),
+      paymentHistory: inputs.paymentHistory.toString()
+    })
+  }
+
+  return (
+    <div className="score-simulator">
+      <h3 className="section-title">{t('simulator.title')}</h3>
+      <p className="simulator-note">
+        {t('simulator.note')}
+      </p>
+
+      {SLIDERS.map(slider => (
+        <div className="simulator-slider" key={slider.field}>
+          <label className="input-label">
+            {t(slider.label)}
+            <span className="simulator-value">
+              {slider.format ? slider.format(inputs[slider.field], i18n) : inputs[slider.field]}
+            </span>
+          </label>
+          <input
+            type="range"
+            min={slider.min}
+            max={slider.max}
+            step={slider.step}
+            value={Math.min(Math.max(inputs[slider.field], slider.min), slider.max)}
+            onChange={(e) => setInputs(current => ({ ...current, [slider.field]: Number(e.target.value) }))}
+          />
+        </div>
+      ))}
+
+      <div className="simulator-result">
+        <span className="simulator-score">{t('common.score', { score: simulation.score })}</span>
+        <span>
+          {band && t('bands.detail', { label: { key: band.label }, range: band.range })}
+          {' · '}
+          <span className={simulation.approved ? 'result-approved' : 'result-denied'}>
+            {simulation.approved ? t('simulator.wouldApprove') : t('simulator.wouldDeny')}
+          </span>
+        </span>
+      </div>
+
+      <ul className="simulator-steps">
+        {simulation.steps.map(step => (
+          <li key={step.label}>
+            <span>{t(step.label)}</span>
+            <span>{step.score}</span>
+          </li>
+        ))}
+      </ul>
+
+      {simulation.wrapped && (
+        <div className="owner-warning">
+          {t('simulator.wrapped')}
+        </div>
+      )}
+
+      <button className="btn btn-secondary" onClick={applyToForm} disabled={disabled}>
+        {t('simulator.apply')}
+      </button>
+    </div>
+  )
+}
+
+export default ScoreSimulator
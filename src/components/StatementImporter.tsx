@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react'
+import type { CreditData } from '../utils/types'
+import { parseStatementFile, guessMapping, applyMapping } from '../utils/statementImport'
+import type { StatementTable, ImportMapping } from '../utils/statementImport'
+import { describeError } from '../utils/errors'
+import type { MessageDescriptor, MessageKey } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
+
+interface StatementImporterProps {
+  onImport: (data: Partial<CreditData>) => void
+  disabled?: boolean
+}
+
+const FIELD_LABELS: Record<keyof CreditData, MessageKey> = {
+  income: 'fieldLabel.income',
+  debt: 'fieldLabel.debt',
+  age: 'fieldLabel.age',
+  creditHistory: 'fieldLabel.creditHistory',
+  paymentHistory: 'fieldLabel.paymentHistory'
+}
+
+const PREVIEW_ROWS = 5
+
+const StatementImporter: React.FC<StatementImporterProps> = ({ onImport, disabled = false }) => {
+  const { t, describe } = useI18n()
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [table, setTable] = useState<StatementTable | null>(null)
+  const [mapping, setMapping] = useState<ImportMapping>({ fields: {} })
+  const [error, setError] = useState<MessageDescriptor | null>(null)
+
+  const result = useMemo(() => (table ? applyMapping(table, mapping) : null), [table, mapping])
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setError(null)
+      const parsed = await parseStatementFile(file)
+      setFileName(file.name)
+      setTable(parsed)
+      setMapping(guessMapping(parsed))
+    } catch (error: any) {
+      console.error('❌ Failed to parse statement:', error)
+      setTable(null)
+      setError(describeError(error, 'import.readFailed'))
+    }
+  }
+
+  const setFieldColumn = (field: keyof CreditData, column: string) => {
+    setMapping(current => ({
+      ...current,
+      fields: { ...current.fields, [field]: column || undefined }
+    }))
+  }
+
+  const setTransactionColumn = (key: 'dateColumn' | 'amountColumn', column: string) => {
+    setMapping(current => ({
+      ...current,
+      transactions: { dateColumn: '', amountColumn: '', ...current.transactions, [key]: column }
+    }))
+  }
+
+  const reset = () => {
+    setFileName(null)
+    setTable(null)
+    setMapping({ fields: {} })
+    setError(null)
+  }
+
+  const apply = () => {
+    if (!result) return
+    onImport(result.data)
+    reset()
+  }
+
+  const columnSelect = (value: string | undefined, onChange: (column: string) => void) => (
+    <select className="import-select" value={value || ''} onChange={(e) => onChange(e.target.value)}>
+      <option value="">{t('import.notMapped')}</option>
+      {table?.columns.map(column => (
+        <option key={column} value={column}>{column}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className="statement-importer">
+      <div className="import-header">
+        <span className="input-label">{t('import.title')}</span>
+        <label className={`btn btn-secondary import-file ${disabled ? 'disabled' : ''}`}>
+          {t('import.choose')}
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} disabled={disabled} hidden />
+        </label>
+      </div>
+      <p className="simulator-note">{t('import.privacy')}</p>
+
+      {error && <div className="input-error">⚠️ {describe(error)}</div>}
+
+      {table && result && (
+        <>
+          <div className="activity-meta">
+            {t('import.summary', { file: fileName ?? '', rows: table.rows.length, format: table.format.toUpperCase() })}
+          </div>
+
+          <div className="import-preview">
+            <table>
+              <thead>
+                <tr>
+                  {table.columns.map(column => <th key={column}>{column}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {table.rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index}>
+                    {table.columns.map(column => <td key={column}>{row[column]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="import-mapping">
+            {(Object.keys(FIELD_LABELS) as (keyof CreditData)[]).map(field => (
+              <div className="import-mapping-row" key={field}>
+                <span className="detail-label">{t(FIELD_LABELS[field])}</span>
+                {columnSelect(mapping.fields[field], column => setFieldColumn(field, column))}
+                <span className="import-value">
+                  {result.data[field] ?? '—'}
+                  {result.sources[field] && <span className="activity-meta"> {describe(result.sources[field])}</span>}
+                </span>
+              </div>
+            ))}
+
+            {!mapping.fields.income && (
+              <div className="import-mapping-row">
+                <span className="detail-label">{t('import.deriveIncome')}</span>
+                {columnSelect(mapping.transactions?.dateColumn, column => setTransactionColumn('dateColumn', column))}
+                {columnSelect(mapping.transactions?.amountColumn, column => setTransactionColumn('amountColumn', column))}
+              </div>
+            )}
+          </div>
+
+          {result.warnings.map((warning, index) => (
+            <div className="input-error" key={index}>⚠️ {describe(warning)}</div>
+          ))}
+
+          <div className="form-actions">
+            <button className="btn btn-secondary" onClick={reset}>
+              {t('import.discard')}
+            </button>
+            <button
+              className="btn btn-primary"
+              onClick={apply}
+              disabled={disabled || Object.keys(result.data).length === 0}
+            >
+              {t('import.fill')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default StatementImporter
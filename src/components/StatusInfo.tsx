@@ -1,5 +1,9 @@
 import React from 'react'
 import type { UserStatus } from '../utils/types'
+import type { FHEBackend } from '../utils/fhe'
+import type { FHEWarmUpStatus } from '../hooks/useFHEWarmUp'
+import { isSupportedChain, getSupportedNetworks } from '../utils/networks'
+import { useI18n } from '../hooks/useI18n'
 
 interface StatusInfoProps {
   userStatus: UserStatus
@@ -7,6 +11,10 @@ interface StatusInfoProps {
   balance?: string
   networkName?: string
   chainId?: string
+  fheBackend?: FHEBackend
+  fheStatus?: FHEWarmUpStatus
+  onSwitchNetwork?: () => void
+  readOnly?: boolean
 }
 
 const StatusInfo: React.FC<StatusInfoProps> = ({ 
@@ -14,78 +22,131 @@ const StatusInfo: React.FC<StatusInfoProps> = ({
   totalEvaluations, 
   balance = '0',
   networkName = 'Unknown',
-  chainId = ''
+  chainId = '',
+  fheBackend = 'fhevm',
+  fheStatus = 'idle',
+  onSwitchNetwork,
+  readOnly = false
 }) => {
+  const { t, formatEth, formatNumber } = useI18n()
+
   const getStatusMessage = () => {
+    if (readOnly) {
+      return t('status.readOnly')
+    }
+    
     if (!userStatus.hasSubmitted) {
-      return '📝 Submit your financial data for confidential evaluation'
+      return t('status.submitData')
+    }
+    
+    if (userStatus.evaluationOutdated) {
+      return t('status.dataUpdated')
     }
     
     if (!userStatus.isEvaluated) {
-      return '🔄 Evaluate your credit score using encrypted computation'
+      return t('status.evaluate')
+    }
+    
+    if (userStatus.hasRequestedApproval) {
+      return t('status.approvalRequested')
     }
     
     if (userStatus.canApprove) {
-      return '✅ Request loan approval based on your score'
+      return t('status.requestApproval')
     }
     
-    return 'Credit evaluation complete!'
+    return t('status.complete')
   }
 
-  const isOnSepolia = chainId === '0xaa36a7'
-  const hasInsufficientBalance = parseFloat(balance) === 0
+  const isOnSupportedNetwork = isSupportedChain(chainId)
+  const hasInsufficientBalance = !readOnly && parseFloat(balance) === 0
 
   return (
     <div className="status-info">
+      {fheBackend === 'simulation' && (
+        <div className="simulation-banner">
+          {t('status.simulationBanner')}
+        </div>
+      )}
+
       <div className="status-row">
-        <span className="status-label">Network:</span>
-        <span className={`status-value ${isOnSepolia ? 'network-correct' : 'network-warning'}`}>
-          {networkName}
-          {!isOnSepolia && chainId && ' ⚠️'}
+        <span className="status-label">{t('status.encryption')}</span>
+        <span className={`status-value ${fheBackend === 'simulation' ? 'network-warning' : ''}`}>
+          {fheBackend === 'simulation' ? t('status.encryptionSimulation') : t('status.encryptionFhevm')}
+          {fheBackend === 'fhevm' && fheStatus === 'warming' && ` ${t('status.encryptionWarming')}`}
+          {fheBackend === 'fhevm' && fheStatus === 'ready' && ` ${t('status.encryptionReady')}`}
         </span>
       </div>
-      
+
       <div className="status-row">
-        <span className="status-label">ETH Balance:</span>
-        <span className={`status-value ${hasInsufficientBalance ? 'balance-warning' : ''}`}>
-          {balance} ETH
-          {hasInsufficientBalance && ' ⚠️'}
+        <span className="status-label">{t('status.network')}</span>
+        <span className={`status-value ${isOnSupportedNetwork ? 'network-correct' : 'network-warning'}`}>
+          {networkName}
+          {!isOnSupportedNetwork && chainId && ' ⚠️'}
         </span>
       </div>
       
-      <div className="status-row">
-        <span className="status-label">Data Submitted:</span>
-        <span className="status-value">
-          {userStatus.hasSubmitted ? '✅ Yes' : '❌ No'}
-        </span>
-      </div>
+      {!readOnly && (
+        <>
+          <div className="status-row">
+            <span className="status-label">{t('status.balance')}</span>
+            <span className={`status-value ${hasInsufficientBalance ? 'balance-warning' : ''}`}>
+              {formatEth(balance)}
+              {hasInsufficientBalance && ' ⚠️'}
+            </span>
+          </div>
       
-      <div className="status-row">
-        <span className="status-label">Credit Evaluated:</span>
-        <span className="status-value">
-          {userStatus.isEvaluated ? '✅ Yes' : '❌ No'}
-        </span>
-      </div>
+          <div className="status-row">
+            <span className="status-label">{t('status.dataSubmitted')}</span>
+            <span className="status-value">
+              {userStatus.hasSubmitted ? t('common.yes') : t('common.no')}
+            </span>
+          </div>
+      
+          <div className="status-row">
+            <span className="status-label">{t('status.creditEvaluated')}</span>
+            <span className="status-value">
+              {userStatus.isEvaluated
+                ? t('common.yes')
+                : userStatus.evaluationOutdated ? t('status.evaluationOutdated') : t('common.no')}
+            </span>
+          </div>
+      
+          <div className="status-row">
+            <span className="status-label">{t('status.loanRequested')}</span>
+            <span className="status-value">
+              {userStatus.hasRequestedApproval ? t('common.yes') : t('common.no')}
+            </span>
+          </div>
+        </>
+      )}
       
       <div className="status-row">
-        <span className="status-label">Total Evaluations:</span>
-        <span className="status-value">{totalEvaluations}</span>
+        <span className="status-label">{t('status.totalEvaluations')}</span>
+        <span className="status-value">{formatNumber(totalEvaluations)}</span>
       </div>
       
       <div className="status-row">
-        <span className="status-label">Status:</span>
+        <span className="status-label">{t('status.status')}</span>
         <span className="status-value">{getStatusMessage()}</span>
       </div>
       
-      {!isOnSepolia && chainId && (
+      {!readOnly && !isOnSupportedNetwork && chainId && (
         <div className="network-warning-message">
-          ⚠️ Please switch to Sepolia testnet to use this DApp
+          {t('status.unsupportedNetwork', {
+            networks: getSupportedNetworks().map(network => network.chainName).join(', ')
+          })}
+          {onSwitchNetwork && (
+            <button className="network-switch-btn" onClick={onSwitchNetwork}>
+              {t('status.switchNetwork')}
+            </button>
+          )}
         </div>
       )}
       
       {hasInsufficientBalance && (
         <div className="balance-warning-message">
-          ⚠️ You need Sepolia ETH to pay for gas fees. Get free testnet ETH from a faucet.
+          {t('status.needGas')}
         </div>
       )}
     </div>
@@ -1,4 +1,5 @@
 import React, { useState } from 'react'
+import { useI18n } from '../hooks/useI18n'
 
 interface TransactionExplanationProps {
   isOpen: boolean
@@ -7,6 +8,7 @@ interface TransactionExplanationProps {
 
 const TransactionExplanation: React.FC<TransactionExplanationProps> = ({ isOpen, onClose }) => {
   const [activeTab, setActiveTab] = useState<'flow' | 'trigger' | 'state'>('flow')
+  const { t } = useI18n()
 
   if (!isOpen) return null
 
@@ -14,7 +16,7 @@ const TransactionExplanation: React.FC<TransactionExplanationProps> = ({ isOpen,
     <div className="modal-overlay">
       <div className="modal-content">
         <div className="modal-header">
-          <h2>🔍 MetaMask Transaction Implementation Principles</h2>
+          <h2>{t('explain.title')}</h2>
           <button className="modal-close" onClick={onClose}>
             ✕
           </button>
@@ -25,50 +27,50 @@ const TransactionExplanation: React.FC<TransactionExplanationProps> = ({ isOpen,
             className={`tab-btn ${activeTab === 'flow' ? 'active' : ''}`}
             onClick={() => setActiveTab('flow')}
           >
-            Contract Interaction Flow
+            {t('explain.tabFlow')}
           </button>
           <button 
             className={`tab-btn ${activeTab === 'trigger' ? 'active' : ''}`}
             onClick={() => setActiveTab('trigger')}
           >
-            Trigger Mechanism
+            {t('explain.tabTrigger')}
           </button>
           <button 
             className={`tab-btn ${activeTab === 'state' ? 'active' : ''}`}
             onClick={() => setActiveTab('state')}
           >
-            State Management
+            {t('explain.tabState')}
           </button>
         </div>
 
         <div className="modal-body">
           {activeTab === 'flow' && (
             <div className="explanation-section">
-              <h3>📋 Contract Interaction Flow:</h3>
+              <h3>{t('explain.flowTitle')}</h3>
               <div className="flow-steps">
                 <div className="flow-step">
                   <span className="step-number">1</span>
-                  <span className="step-text">User clicks button</span>
+                  <span className="step-text">{t('explain.flowClick')}</span>
                 </div>
                 <div className="flow-arrow">→</div>
                 <div className="flow-step">
                   <span className="step-number">2</span>
-                  <span className="step-text">Call contract method</span>
+                  <span className="step-text">{t('explain.flowCall')}</span>
                 </div>
                 <div className="flow-arrow">→</div>
                 <div className="flow-step">
                   <span className="step-number">3</span>
-                  <span className="step-text">ethers.js sends transaction</span>
+                  <span className="step-text">{t('explain.flowSend')}</span>
                 </div>
                 <div className="flow-arrow">→</div>
                 <div className="flow-step">
                   <span className="step-number">4</span>
-                  <span className="step-text">MetaMask popup confirmation</span>
+                  <span className="step-text">{t('explain.flowConfirm')}</span>
                 </div>
                 <div className="flow-arrow">→</div>
                 <div className="flow-step">
                   <span className="step-number">5</span>
-                  <span className="step-text">Blockchain execution</span>
+                  <span className="step-text">{t('explain.flowExecute')}</span>
                 </div>
               </div>
             </div>
@@ -76,34 +78,33 @@ const TransactionExplanation: React.FC<TransactionExplanationProps> = ({ isOpen,
 
           {activeTab === 'trigger' && (
             <div className="explanation-section">
-              <h3>⚡ Trigger Mechanism:</h3>
+              <h3>{t('explain.triggerTitle')}</h3>
               <ol className="numbered-list">
-                <li>When contract method is called, ethers.js constructs the transaction</li>
-                <li>Because contract instance uses signer, ethers.js knows user signature is required</li>
-                <li>This automatically triggers MetaMask transaction confirmation popup</li>
-                <li>After user confirmation, transaction is sent to Sepolia testnet</li>
-                <li><code>tx.wait()</code> waits for transaction to be mined and confirmed</li>
+                <li>{t('explain.triggerConstruct')}</li>
+                <li>{t('explain.triggerSigner')}</li>
+                <li>{t('explain.triggerPopup')}</li>
+                <li>{t('explain.triggerSend')}</li>
+                <li><code>tx.wait()</code> {t('explain.triggerWait')}</li>
               </ol>
             </div>
           )}
 
           {activeTab === 'state' && (
             <div className="explanation-section">
-              <h3>🔄 State Management:</h3>
+              <h3>{t('explain.stateTitle')}</h3>
               <ul className="bullet-list">
-                <li>Display loading state during transaction processing</li>
-                <li>Update UI prompts and user feedback</li>
-                <li>Wait for blockchain confirmation</li>
-                <li>Refresh page state after transaction completion</li>
+                <li>{t('explain.stateLoading')}</li>
+                <li>{t('explain.stateFeedback')}</li>
+                <li>{t('explain.stateConfirm')}</li>
+                <li>{t('explain.stateRefresh')}</li>
               </ul>
             </div>
           )}
 
           <div className="technical-summary">
-            <h4>💡 Technical Implementation:</h4>
+            <h4>{t('explain.summaryTitle')}</h4>
             <p>
-              Interaction with smart contracts is handled through ethers.js, with MetaMask 
-              as the wallet provider automatically handling transaction signing and sending.
+              {t('explain.summary')}
             </p>
           </div>
         </div>
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react'
+import { ethers } from 'ethers'
+import type { TransactionReview as Review } from '../utils/blockchain'
+import type { FeeStrategy } from '../utils/feeStrategies'
+import type { MessageKey } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
+
+interface TransactionReviewProps {
+  review: Review | null
+  onConfirm: (strategy: FeeStrategy) => void
+  onCancel: () => void
+}
+
+const GAS_LIMIT_SOURCE_LABELS: Record<Review['gasLimitSource'], MessageKey> = {
+  estimate: 'review.sourceEstimate',
+  learned: 'review.sourceLearned',
+  fallback: 'review.sourceFallback'
+}
+
+// Costs are small enough to need more than the usual 4 fraction digits
+const ETH_FRACTION_DIGITS = 6
+
+const TransactionReview: React.FC<TransactionReviewProps> = ({ review, onConfirm, onCancel }) => {
+  const i18n = useI18n()
+  const { t, describe, formatNumber, formatCurrency } = i18n
+  const [strategy, setStrategy] = useState<FeeStrategy>('standard')
+
+  useEffect(() => {
+    if (review) setStrategy(review.selectedStrategy)
+  }, [review])
+
+  if (!review) return null
+
+  const option = review.feeOptions.find(feeOption => feeOption.strategy === strategy) || review.feeOptions[0]
+  const formatEth = (value: string) => i18n.formatEth(value, ETH_FRACTION_DIGITS)
+  const formatGwei = (wei: bigint) => t('common.gwei', {
+    amount: formatNumber(parseFloat(ethers.formatUnits(wei, 'gwei')), { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  })
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-content review-modal">
+        <div className="modal-header">
+          <h2>{t('review.title')}</h2>
+          <button className="modal-close" onClick={onCancel}>
+            ✕
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <div className="review-section">
+            <h3>{t(`methods.${review.method}`)}</h3>
+            <code className="review-method">{review.method}</code>
+          </div>
+
+          {review.arguments.length > 0 && (
+            <div className="review-section">
+              <h4>{t('review.arguments')}</h4>
+              {review.arguments.map((argument) => (
+                <div className="detail-row" key={argument.label}>
+                  <span className="detail-label">{t('review.argumentLabel', { label: { key: argument.label } })}</span>
+                  <span className="detail-value review-value">
+                    {typeof argument.value === 'string' ? argument.value : describe(argument.value)}
+                  </span>
+                </div>
+              ))}
+              {review.method === 'submitCreditData' && (
+                <p className="review-note">
+                  {t('review.onlyHandles')}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="review-section">
+            <h4>{t('review.fees')}</h4>
+            {review.feeOptions.length > 1 && (
+              <div className="fee-strategies">
+                {review.feeOptions.map((feeOption) => (
+                  <button
+                    key={feeOption.strategy}
+                    className={`fee-strategy ${feeOption.strategy === option.strategy ? 'selected' : ''}`}
+                    onClick={() => setStrategy(feeOption.strategy)}
+                  >
+                    <span>{t(`fees.${feeOption.strategy}`)}</span>
+                    <span className="fee-strategy-cost">{formatEth(feeOption.expectedCost)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="detail-row">
+              <span className="detail-label">{t('review.gasLimit')}</span>
+              <span className="detail-value">
+                {t('review.gasLimitValue', {
+                  limit: Number(review.gasLimit),
+                  source: { key: GAS_LIMIT_SOURCE_LABELS[review.gasLimitSource] }
+                })}
+              </span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">{t('review.maxFee')}</span>
+              <span className="detail-value">{formatGwei(option.maxFeePerGas)}</span>
+            </div>
+            {option.maxPriorityFeePerGas !== undefined && (
+              <div className="detail-row">
+                <span className="detail-label">{t('review.priorityFee')}</span>
+                <span className="detail-value">{formatGwei(option.maxPriorityFeePerGas)}</span>
+              </div>
+            )}
+            <div className="detail-row">
+              <span className="detail-label">{t('review.expectedCost')}</span>
+              <span className="detail-value">
+                {formatEth(option.expectedCost)}
+                {option.expectedCostFiat !== null && (
+                  <> {t('review.fiatCost', {
+                    amount: formatCurrency(parseFloat(option.expectedCostFiat), review.fiatCurrency.toUpperCase(), 2)
+                  })}</>
+                )}
+              </span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">{t('review.maxCost')}</span>
+              <span className="detail-value">{formatEth(option.maxCost)}</span>
+            </div>
+            <div className="detail-row">
+              <span className="detail-label">{t('review.balance')}</span>
+              <span className="detail-value">{formatEth(review.balance)}</span>
+            </div>
+          </div>
+
+          {option.insufficientBalance && (
+            <div className="review-warning">
+              {t('review.insufficientBalance')}
+            </div>
+          )}
+
+          <div className="review-actions">
+            <button className="btn btn-secondary" onClick={onCancel}>
+              {t('common.cancel')}
+            </button>
+            <button className="btn btn-primary" onClick={() => onConfirm(option.strategy)}>
+              {t('review.continue')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TransactionReview
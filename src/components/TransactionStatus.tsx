@@ -1,14 +1,39 @@
-import React from 'react'
+import React, { useState } from 'react'
 import type { TransactionStatus as TxStatus } from '../utils/blockchain'
+import { getExplorerTxUrl } from '../utils/networks'
+import { useI18n } from '../hooks/useI18n'
 
 interface TransactionStatusProps {
   status: TxStatus | null
+  chainId?: string
   onClose?: () => void
+  // Only passed while the transaction can still be replaced
+  onSpeedUp?: () => Promise<void>
+  onCancel?: () => Promise<void>
 }
 
-const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }) => {
+const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, chainId = '', onClose, onSpeedUp, onCancel }) => {
+  const { t, describe, formatNumber } = useI18n()
+  const [replacing, setReplacing] = useState(false)
+
   if (!status) return null
 
+  const explorerUrl = status.hash ? getExplorerTxUrl(chainId, status.hash) : null
+  const replacementUrl = status.replacement ? getExplorerTxUrl(chainId, status.replacement.hash) : null
+  const isFinal = status.status !== 'pending' && status.status !== 'confirming'
+
+  const handleReplace = async (replace: () => Promise<void>) => {
+    try {
+      setReplacing(true)
+      await replace()
+    } catch (error: any) {
+      console.error('Replacement failed:', error)
+      // Error handling is done in the parent component
+    } finally {
+      setReplacing(false)
+    }
+  }
+
   const getStatusIcon = () => {
     switch (status.status) {
       case 'pending':
@@ -19,6 +44,12 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }
         return '✅'
       case 'failed':
         return '❌'
+      case 'replaced':
+        return '⚡'
+      case 'cancelled':
+        return '🛑'
+      case 'timeout':
+        return '⌛'
       default:
         return '📋'
     }
@@ -34,6 +65,12 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }
         return '#10b981' // green
       case 'failed':
         return '#ef4444' // red
+      case 'replaced':
+        return '#10b981' // green
+      case 'cancelled':
+        return '#6b7280' // gray
+      case 'timeout':
+        return '#f97316' // orange
       default:
         return '#6b7280' // gray
     }
@@ -42,15 +79,33 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }
   const getStatusText = () => {
     switch (status.status) {
       case 'pending':
-        return 'Waiting for user confirmation...'
+        if (status.replacement?.kind === 'cancel') return t('txStatus.cancelling')
+        if (status.replacement?.kind === 'speedup') return t('txStatus.spedUp')
+        return status.hash ? t('txStatus.waitingMined') : t('txStatus.waitingUser')
       case 'confirming':
-        return `Confirming... (${status.confirmations} confirmation${status.confirmations !== 1 ? 's' : ''})`
+        if (status.requiredConfirmations) {
+          return t('txStatus.confirmingOf', {
+            confirmations: status.confirmations,
+            required: status.requiredConfirmations
+          })
+        }
+        return status.confirmations === 1
+          ? t('txStatus.confirmingOne')
+          : t('txStatus.confirmingMany', { confirmations: status.confirmations })
       case 'confirmed':
-        return 'Transaction confirmed!'
+        return t('txStatus.confirmed')
       case 'failed':
-        return status.error || 'Transaction failed'
+        return status.error ? describe(status.error) : t('txStatus.failed')
+      case 'replaced':
+        return status.error ? describe(status.error) : t('txStatus.spedUpConfirmed')
+      case 'cancelled':
+        return t('txStatus.cancelled')
+      case 'timeout':
+        return status.confirmations > 0 && status.requiredConfirmations
+          ? t('txStatus.timedOutAt', { confirmations: status.confirmations, required: status.requiredConfirmations })
+          : t('txStatus.timedOutPending')
       default:
-        return 'Unknown status'
+        return t('txStatus.unknown')
     }
   }
 
@@ -59,7 +114,13 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }
       <div className="transaction-header">
         <span className="status-icon">{getStatusIcon()}</span>
         <span className="status-text">{getStatusText()}</span>
-        {onClose && (status.status === 'confirmed' || status.status === 'failed') && (
+        {status.method && (
+          <span className="status-method">
+            {t(`methods.${status.method}`)}
+            {status.resumed && ` ${t('txStatus.resumed')}`}
+          </span>
+        )}
+        {onClose && isFinal && (
           <button className="close-btn" onClick={onClose}>×</button>
         )}
       </div>
@@ -67,35 +128,65 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }
       {status.hash && (
         <div className="transaction-details">
           <div className="detail-row">
-            <span className="detail-label">Transaction Hash:</span>
-            <a 
-              href={`https://sepolia.etherscan.io/tx/${status.hash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="transaction-link"
-            >
-              {status.hash.slice(0, 10)}...{status.hash.slice(-8)}
-            </a>
+            <span className="detail-label">{t('txStatus.hash')}</span>
+            {explorerUrl ? (
+              <a 
+                href={explorerUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="transaction-link"
+              >
+                {status.hash.slice(0, 10)}...{status.hash.slice(-8)}
+              </a>
+            ) : (
+              <span className="detail-value">{status.hash.slice(0, 10)}...{status.hash.slice(-8)}</span>
+            )}
           </div>
           
+          {status.replacement && (
+            <div className="detail-row">
+              <span className="detail-label">
+                {status.replacement.kind === 'cancel' ? t('txStatus.cancellationHash') : t('txStatus.replacementHash')}
+              </span>
+              {replacementUrl ? (
+                <a
+                  href={replacementUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="transaction-link"
+                >
+                  {status.replacement.hash.slice(0, 10)}...{status.replacement.hash.slice(-8)}
+                </a>
+              ) : (
+                <span className="detail-value">
+                  {status.replacement.hash.slice(0, 10)}...{status.replacement.hash.slice(-8)}
+                </span>
+              )}
+            </div>
+          )}
+
           {status.blockNumber && (
             <div className="detail-row">
-              <span className="detail-label">Block Number:</span>
+              <span className="detail-label">{t('txStatus.blockNumber')}</span>
               <span className="detail-value">{status.blockNumber}</span>
             </div>
           )}
           
           {status.gasUsed && (
             <div className="detail-row">
-              <span className="detail-label">Gas Used:</span>
-              <span className="detail-value">{parseInt(status.gasUsed).toLocaleString()}</span>
+              <span className="detail-label">{t('txStatus.gasUsed')}</span>
+              <span className="detail-value">{formatNumber(parseInt(status.gasUsed))}</span>
             </div>
           )}
           
           {status.effectiveGasPrice && (
             <div className="detail-row">
-              <span className="detail-label">Gas Price:</span>
-              <span className="detail-value">{parseFloat(status.effectiveGasPrice).toFixed(2)} gwei</span>
+              <span className="detail-label">{t('txStatus.gasPrice')}</span>
+              <span className="detail-value">
+                {t('common.gwei', {
+                  amount: formatNumber(parseFloat(status.effectiveGasPrice), { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+                })}
+              </span>
             </div>
           )}
         </div>
@@ -103,22 +194,60 @@ const TransactionStatus: React.FC<TransactionStatusProps> = ({ status, onClose }
       
       {status.status === 'pending' && (
         <div className="pending-info">
-          <p>Please confirm the transaction in your MetaMask wallet.</p>
+          <p>
+            {status.hash
+              ? t('txStatus.safeToReload')
+              : t('txStatus.confirmInWallet')}
+          </p>
           <div className="loading-dots">
             <span></span>
             <span></span>
             <span></span>
           </div>
+          {status.hash && (onSpeedUp || onCancel) && (
+            <div className="transaction-actions">
+              {onSpeedUp && (
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => handleReplace(onSpeedUp)}
+                  disabled={replacing}
+                >
+                  {t('txStatus.speedUp')}
+                </button>
+              )}
+              {onCancel && status.replacement?.kind !== 'cancel' && (
+                <button
+                  className="btn btn-secondary"
+                  onClick={() => handleReplace(onCancel)}
+                  disabled={replacing}
+                >
+                  {t('txStatus.cancel')}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       )}
       
+      {status.reorged && (
+        <div className="reorg-info">
+          <p>{t('txStatus.reorged')}</p>
+        </div>
+      )}
+
+      {status.status === 'timeout' && (
+        <div className="timeout-info">
+          <p>{status.error && describe(status.error)}</p>
+        </div>
+      )}
+
       {status.status === 'confirming' && (
         <div className="confirming-info">
-          <p>Transaction is being processed on the Sepolia network.</p>
+          <p>{t('txStatus.processing')}</p>
           <div className="progress-bar">
             <div 
               className="progress-fill" 
-              style={{ width: `${Math.min(status.confirmations * 100, 100)}%` }}
+              style={{ width: `${Math.min((status.confirmations / (status.requiredConfirmations || 1)) * 100, 100)}%` }}
             ></div>
           </div>
         </div>
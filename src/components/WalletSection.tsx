@@ -1,36 +1,70 @@
-import React from 'react'
+import React, { useState } from 'react'
+import type { WalletDetail } from '../utils/wallets'
+import { LocalizedError } from '../utils/i18n'
+import type { MessageDescriptor } from '../utils/i18n'
+import { useI18n } from '../hooks/useI18n'
 
 interface WalletSectionProps {
-  onConnect: () => Promise<void>
+  wallets: WalletDetail[]
+  selectedWallet: WalletDetail | null
+  onConnect: (wallet?: WalletDetail) => Promise<void>
   loading: boolean
 }
 
-const WalletSection: React.FC<WalletSectionProps> = ({ onConnect, loading }) => {
-  const handleConnect = async () => {
+const WalletSection: React.FC<WalletSectionProps> = ({ wallets, selectedWallet, onConnect, loading }) => {
+  const { t, describe } = useI18n()
+  const [connectingRdns, setConnectingRdns] = useState<string | null>(null)
+  const [error, setError] = useState<MessageDescriptor | null>(null)
+
+  const handleConnect = async (wallet: WalletDetail) => {
     try {
-      await onConnect()
+      setConnectingRdns(wallet.info.rdns)
+      setError(null)
+      await onConnect(wallet)
     } catch (error: any) {
       console.error('Connection failed:', error)
-      // Error handling is done in the parent component
+      setError(error instanceof LocalizedError
+        ? error.descriptor
+        : { key: 'wallet.connectFailed', params: { wallet: wallet.info.name } })
+    } finally {
+      setConnectingRdns(null)
     }
   }
 
+  if (wallets.length === 0) {
+    return (
+      <div className="wallet-section">
+        <div className="wallet-empty">
+          {t('wallet.noWallet')}
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="wallet-section">
-      <button 
-        className="btn btn-primary" 
-        onClick={handleConnect}
-        disabled={loading}
-      >
-        {loading ? (
-          <>
-            <span className="loading"></span>
-            Connecting...
-          </>
-        ) : (
-          'Connect MetaMask Wallet'
-        )}
-      </button>
+      <h3 className="section-title">{t('wallet.connectTitle')}</h3>
+      <div className="wallet-list">
+        {wallets.map((wallet) => (
+          <button
+            key={wallet.info.uuid}
+            className={`wallet-option ${selectedWallet?.info.rdns === wallet.info.rdns ? 'selected' : ''}`}
+            onClick={() => handleConnect(wallet)}
+            disabled={loading}
+          >
+            {wallet.info.icon ? (
+              <img className="wallet-icon" src={wallet.info.icon} alt="" />
+            ) : (
+              <span className="wallet-icon">👛</span>
+            )}
+            <span className="wallet-name">{wallet.info.name}</span>
+            {loading && connectingRdns === wallet.info.rdns && (
+              <span className="loading"></span>
+            )}
+          </button>
+        ))}
+      </div>
+      {error && <div className="wallet-empty">{describe(error)}</div>}
     </div>
   )
 }
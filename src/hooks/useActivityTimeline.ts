@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { CreditAnalyzerClient, DecodedEvent } from '../utils/creditAnalyzer'
+import { describeError } from '../utils/errors'
+import type { MessageDescriptor } from '../utils/i18n'
+
+// Without an account, show public events from roughly the last day of Sepolia blocks
+const PUBLIC_EVENTS_BLOCK_RANGE = 7200
+const PUBLIC_EVENTS_LIMIT = 20
+
+export const useActivityTimeline = (contract: CreditAnalyzerClient | null, account: string | null) => {
+  const [events, setEvents] = useState<DecodedEvent[]>([])
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<MessageDescriptor | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!contract) {
+      setEvents([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      if (account) {
+        console.log('📜 Loading activity timeline for:', account)
+        const userEvents = await contract.queryAllEvents(account)
+        setEvents(userEvents)
+      } else {
+        console.log('📜 Loading recent public activity')
+        const publicEvents = await contract.queryAllEvents(undefined, -PUBLIC_EVENTS_BLOCK_RANGE)
+        setEvents(publicEvents.slice(-PUBLIC_EVENTS_LIMIT).reverse())
+      }
+    } catch (error: any) {
+      console.error('Failed to load activity timeline:', error)
+      setError(describeError(error, 'activity.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }, [contract, account])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  return {
+    events,
+    loading,
+    error,
+    refresh
+  }
+}
@@ -1,26 +1,44 @@
 import { useState, useEffect } from 'react'
 import { ethers } from 'ethers'
-import { CONTRACT_ADDRESS, CONTRACT_ABI } from '../utils/constants'
+import { CreditAnalyzerClient } from '../utils/creditAnalyzer'
+import { getNetworkConfig, DEFAULT_CHAIN_ID } from '../utils/networks'
+import { getReadOnlyProvider } from '../utils/blockchain'
 
-export const useContract = (account: string | null) => {
-  const [contract, setContract] = useState<ethers.Contract | null>(null)
+export const useContract = (
+  account: string | null,
+  chainId: string,
+  provider: ethers.BrowserProvider | null
+) => {
+  const [contract, setContract] = useState<CreditAnalyzerClient | null>(null)
   const [loading, setLoading] = useState<boolean>(false)
 
+  // Without a wallet, read from the default network over JSON-RPC
+  const isReadOnly = !account || !provider
+  const activeChainId = isReadOnly ? DEFAULT_CHAIN_ID : chainId
+
   useEffect(() => {
-    if (account && window.ethereum) {
+    const network = getNetworkConfig(activeChainId)
+    if (network) {
       initializeContract()
     } else {
+      // No deployment on this chain: nothing to talk to
       setContract(null)
     }
-  }, [account])
+  }, [account, activeChainId, provider])
 
   const initializeContract = async () => {
+    const network = getNetworkConfig(activeChainId)
+    if (!network) return
+
     try {
       setLoading(true)
       
-      const provider = new ethers.BrowserProvider(window.ethereum)
-      const signer = await provider.getSigner()
-      const contractInstance = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer)
+      // A signer when a wallet is connected, otherwise a read-only provider;
+      // connecting later swaps in the signer without a reload
+      const runner = isReadOnly
+        ? getReadOnlyProvider(network)
+        : await provider.getSigner()
+      const contractInstance = new CreditAnalyzerClient(network.contractAddress, runner, network.deploymentBlock)
       
       setContract(contractInstance)
     } catch (error) {
@@ -33,6 +51,8 @@ export const useContract = (account: string | null) => {
 
   return {
     contract,
+    chainId: activeChainId,
+    isReadOnly,
     loading
   }
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react'
+import type { CreditAnalyzerClient, DecodedEvent } from '../utils/creditAnalyzer'
+
+/**
+ * Listen for CreditAnalyzer events while the client is alive. The client is
+ * rebuilt whenever the account or chain changes, which tears down the old
+ * listeners before new ones are attached.
+ */
+export const useContractEvents = (
+  contract: CreditAnalyzerClient | null,
+  onEvent: (event: DecodedEvent) => void
+) => {
+  // Keep the latest callback without resubscribing on every render
+  const onEventRef = useRef(onEvent)
+  onEventRef.current = onEvent
+
+  useEffect(() => {
+    if (!contract) return
+
+    console.log('👂 Subscribing to contract events')
+    const unsubscribe = contract.subscribe((event) => {
+      console.log('📣 Contract event:', event.event, event.args.user)
+      onEventRef.current(event)
+    })
+
+    return () => {
+      console.log('🔇 Unsubscribing from contract events')
+      unsubscribe()
+    }
+  }, [contract])
+}
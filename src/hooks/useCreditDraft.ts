@@ -0,0 +1,132 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { ethers } from 'ethers'
+import type { CreditData } from '../utils/types'
+import { deriveDraftKey, getDraftSavedAt, saveDraft, loadDraft, deleteDraft } from '../utils/drafts'
+import { describeError } from '../utils/errors'
+import { LocalizedError } from '../utils/i18n'
+import type { MessageDescriptor } from '../utils/i18n'
+
+// Wait for typing to pause before encrypting and saving
+const AUTOSAVE_DELAY_MS = 1000
+
+const isEmpty = (data: CreditData) => Object.values(data).every(value => value.trim() === '')
+
+export interface CreditDraftState {
+  // A draft exists for this account, from this or an earlier session
+  savedAt: number | null
+  // The encryption key is unlocked and changes are saved automatically
+  enabled: boolean
+  unlocking: boolean
+  error: MessageDescriptor | null
+  enable: () => Promise<void>
+  discard: () => Promise<void>
+}
+
+export const useCreditDraft = (
+  account: string | null,
+  signer: ethers.Signer | null,
+  creditData: CreditData,
+  setCreditData: (data: CreditData) => void
+) => {
+  const [key, setKey] = useState<CryptoKey | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+  const [unlocking, setUnlocking] = useState<boolean>(false)
+  const [error, setError] = useState<MessageDescriptor | null>(null)
+  // Skip the autosave triggered by restoring a draft into the form
+  const restoredData = useRef<CreditData | null>(null)
+
+  // Keys never carry over between accounts
+  useEffect(() => {
+    setKey(null)
+    setSavedAt(null)
+    setError(null)
+    if (!account) return
+
+    let cancelled = false
+    getDraftSavedAt(account)
+      .then(time => {
+        if (!cancelled) setSavedAt(time)
+      })
+      .catch(error => {
+        console.warn('⚠️ Failed to check for a saved draft:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [account])
+
+  /**
+   * Unlock drafts with a wallet signature, restoring a saved draft if there is one
+   */
+  const enable = useCallback(async () => {
+    if (!account || !signer) return
+
+    try {
+      setUnlocking(true)
+      setError(null)
+
+      const draftKey = await deriveDraftKey(signer)
+      const draft = await loadDraft(account, draftKey).catch(error => {
+        console.warn('⚠️ Saved draft could not be decrypted:', error)
+        throw new LocalizedError({ key: 'draft.wrongKey' })
+      })
+
+      if (draft) {
+        console.log('📝 Restored encrypted draft')
+        restoredData.current = draft
+        setCreditData(draft)
+      }
+      setKey(draftKey)
+    } catch (error: any) {
+      console.error('❌ Failed to unlock drafts:', error)
+      setError(describeError(error, 'draft.unlockFailed'))
+    } finally {
+      setUnlocking(false)
+    }
+  }, [account, signer, setCreditData])
+
+  const discard = useCallback(async () => {
+    if (!account) return
+
+    try {
+      await deleteDraft(account)
+      setSavedAt(null)
+      setError(null)
+    } catch (error) {
+      console.warn('⚠️ Failed to delete draft:', error)
+    }
+  }, [account])
+
+  // Encrypt and save the form as the user types
+  useEffect(() => {
+    if (!key || !account) return
+    if (restoredData.current === creditData) {
+      restoredData.current = null
+      return
+    }
+
+    const timer = setTimeout(() => {
+      const save = isEmpty(creditData)
+        ? deleteDraft(account).then(() => null)
+        : saveDraft(account, key, creditData)
+
+      save
+        .then(time => setSavedAt(time))
+        .catch(error => console.warn('⚠️ Failed to save draft:', error))
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [key, account, creditData])
+
+  const draft: CreditDraftState = {
+    savedAt,
+    enabled: key !== null,
+    unlocking,
+    error,
+    enable,
+    discard
+  }
+
+  return draft
+}
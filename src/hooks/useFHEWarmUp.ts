@@ -0,0 +1,39 @@
+import { useState, useEffect } from 'react'
+import type { Eip1193Provider } from 'ethers'
+import { warmUpFHE } from '../utils/fhe'
+import { getNetworkConfig } from '../utils/networks'
+
+export type FHEWarmUpStatus = 'idle' | 'warming' | 'ready' | 'failed'
+
+/**
+ * Prepare FHE encryption as soon as a wallet connects on a supported network,
+ * so the keys are loaded before the user submits
+ */
+export const useFHEWarmUp = (
+  account: string | null,
+  chainId: string,
+  ethereum: Eip1193Provider | null
+): FHEWarmUpStatus => {
+  const [status, setStatus] = useState<FHEWarmUpStatus>('idle')
+
+  useEffect(() => {
+    if (!account || !ethereum || !getNetworkConfig(chainId)) {
+      setStatus('idle')
+      return
+    }
+
+    // Switching accounts or chains stops waiting for the warm-up; it never cancels other FHE work
+    const controller = new AbortController()
+    setStatus('warming')
+
+    warmUpFHE({ chainId, provider: ethereum }, { signal: controller.signal }).then((ready) => {
+      if (!controller.signal.aborted) {
+        setStatus(ready ? 'ready' : 'failed')
+      }
+    })
+
+    return () => controller.abort()
+  }, [account, chainId, ethereum])
+
+  return status
+}
@@ -0,0 +1,64 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react'
+import {
+  translate,
+  getInitialLocale,
+  saveLocale,
+  formatNumber,
+  formatCurrency,
+  formatEth,
+  formatDateTime,
+  formatTime
+} from '../utils/i18n'
+import type { Locale, MessageKey, MessageParams, MessageDescriptor } from '../utils/i18n'
+
+export interface I18n {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: (key: MessageKey, params?: MessageParams) => string
+  // Translate a message built elsewhere, such as a validation error
+  describe: (message: MessageDescriptor) => string
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string
+  formatCurrency: (value: number, currency?: string, maximumFractionDigits?: number) => string
+  formatEth: (value: string, maximumFractionDigits?: number) => string
+  // Unix timestamps in milliseconds
+  formatDateTime: (timestamp: number) => string
+  formatTime: (timestamp: number) => string
+}
+
+const createI18n = (locale: Locale, setLocale: (locale: Locale) => void): I18n => ({
+  locale,
+  setLocale,
+  t: (key, params) => translate(locale, key, params),
+  describe: ({ key, params }) => translate(locale, key, params),
+  formatNumber: (value, options) => formatNumber(locale, value, options),
+  formatCurrency: (value, currency, maximumFractionDigits) => formatCurrency(locale, value, currency, maximumFractionDigits),
+  formatEth: (value, maximumFractionDigits) => formatEth(locale, value, maximumFractionDigits),
+  formatDateTime: (timestamp) => formatDateTime(locale, timestamp),
+  formatTime: (timestamp) => formatTime(locale, timestamp)
+})
+
+export const I18nContext = createContext<I18n>(createI18n('en', () => {}))
+
+/**
+ * Current locale and translation helpers, provided by App
+ */
+export const useI18n = () => useContext(I18nContext)
+
+/**
+ * Own the locale state. App calls this once and provides the result through I18nContext.
+ */
+export const useLocaleState = (): I18n => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale)
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const setLocale = useCallback((next: Locale) => {
+    console.log('🌐 Switching language to', next)
+    saveLocale(next)
+    setLocaleState(next)
+  }, [])
+
+  return useMemo(() => createI18n(locale, setLocale), [locale, setLocale])
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react'
+import type { ethers, Eip1193Provider } from 'ethers'
+import type { CreditAnalyzerClient } from '../utils/creditAnalyzer'
+import { decryptLoanApproval } from '../utils/fhe'
+import { parseContractError, getErrorDescriptor, describeError } from '../utils/errors'
+import type { MessageDescriptor } from '../utils/i18n'
+import { loadDecisions, saveDecision } from '../utils/lenderDecisions'
+import type { LenderDecision, LenderDecisionOutcome } from '../utils/lenderDecisions'
+
+export interface LoanRequest {
+  // Transaction hash and log index of the LoanApprovalRequested event
+  id: string
+  applicant: string
+  transactionHash: string
+  blockNumber: number
+  // Unix timestamps in seconds
+  requestedAt: number
+  // Latest evaluation before the request, null if none was found
+  evaluatedAt: number | null
+  // Whether the applicant granted the connected lender access to their results
+  hasAccess: boolean
+}
+
+// Decryption state per applicant. The contract keeps only the current approval,
+// so it is shared by every request from the same applicant.
+export interface ApprovalDecryption {
+  status: 'decrypting' | 'decrypted' | 'failed'
+  approved?: boolean
+  error?: MessageDescriptor
+}
+
+export const useLenderPortal = (
+  contract: CreditAnalyzerClient | null,
+  account: string | null,
+  signer: ethers.Signer | null,
+  chainId: string,
+  ethereum: Eip1193Provider | null
+) => {
+  const [isLender, setIsLender] = useState<boolean>(false)
+  const [requests, setRequests] = useState<LoanRequest[]>([])
+  const [decisions, setDecisions] = useState<LenderDecision[]>([])
+  const [approvals, setApprovals] = useState<Record<string, ApprovalDecryption>>({})
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<MessageDescriptor | null>(null)
+
+  // Detect whether the owner registered the connected account as a lender
+  useEffect(() => {
+    setIsLender(false)
+    if (!contract || !account || contract.isReadOnly) return
+
+    let cancelled = false
+    contract.isLender(account)
+      .then(registered => {
+        if (!cancelled) setIsLender(registered)
+      })
+      .catch(error => {
+        console.warn('⚠️ Failed to read lender status:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [contract, account])
+
+  useEffect(() => {
+    setApprovals({})
+    setDecisions(contract && chainId ? loadDecisions(chainId, contract.address) : [])
+  }, [contract, account, chainId])
+
+  const refresh = useCallback(async () => {
+    if (!contract || !account || !isLender) {
+      setRequests([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      console.log('🏦 Loading loan approval requests')
+
+      const [approvalRequests, evaluations] = await Promise.all([
+        contract.queryEvents(contract.filters.LoanApprovalRequested()),
+        contract.queryEvents(contract.filters.CreditEvaluated())
+      ])
+
+      // Only applicants who shared their results with this lender can be decrypted
+      const applicants = Array.from(new Set(approvalRequests.map(event => event.args.user.toLowerCase())))
+      const access = new Map(await Promise.all(
+        applicants.map(async applicant => [applicant, await contract.hasLenderAccess(applicant, account)] as const)
+      ))
+
+      const loanRequests = approvalRequests.map(event => {
+        const applicant = event.args.user.toLowerCase()
+        const evaluation = evaluations
+          .filter(evaluated => evaluated.args.user.toLowerCase() === applicant && evaluated.blockNumber <= event.blockNumber)
+          .pop()
+
+        return {
+          id: `${event.transactionHash}:${event.logIndex}`,
+          applicant: event.args.user,
+          transactionHash: event.transactionHash,
+          blockNumber: event.blockNumber,
+          requestedAt: Number(event.args.timestamp),
+          evaluatedAt: evaluation ? Number(evaluation.args.timestamp) : null,
+          hasAccess: access.get(applicant) ?? false
+        }
+      })
+
+      // Newest first
+      setRequests(loanRequests.reverse())
+    } catch (error: any) {
+      console.error('Failed to load loan approval requests:', error)
+      setError(describeError(error, 'lender.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }, [contract, account, isLender])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  /**
+   * Decrypt an applicant's current loan approval through reencryption
+   */
+  const decryptApproval = useCallback(async (applicant: string) => {
+    if (!contract || !signer || !ethereum) return
+
+    const key = applicant.toLowerCase()
+    setApprovals(current => ({ ...current, [key]: { status: 'decrypting' } }))
+
+    try {
+      console.log('🔓 Decrypting loan approval for:', applicant)
+      const approved = await decryptLoanApproval(contract, signer, applicant, { chainId, provider: ethereum })
+      setApprovals(current => ({ ...current, [key]: { status: 'decrypted', approved } }))
+    } catch (error) {
+      console.error('❌ Loan approval decryption failed:', error)
+      const parsed = parseContractError(error)
+      setApprovals(current => ({ ...current, [key]: { status: 'failed', error: getErrorDescriptor(parsed.code, parsed.reason) } }))
+    }
+  }, [contract, signer, ethereum, chainId])
+
+  const recordDecision = useCallback((request: LoanRequest, outcome: LenderDecisionOutcome, note: string) => {
+    if (!contract || !account) return
+
+    const approval = approvals[request.applicant.toLowerCase()]
+    const decision: LenderDecision = {
+      requestId: request.id,
+      applicant: request.applicant,
+      lender: account,
+      outcome,
+      decryptedApproval: approval?.status === 'decrypted' ? approval.approved ?? null : null,
+      note: note.trim(),
+      requestedAt: request.requestedAt,
+      evaluatedAt: request.evaluatedAt,
+      decidedAt: Math.floor(Date.now() / 1000)
+    }
+
+    console.log(`🏦 Recorded ${outcome} decision for request ${request.id}`)
+    setDecisions(saveDecision(chainId, contract.address, decision))
+  }, [contract, account, approvals, chainId])
+
+  return {
+    isLender,
+    requests,
+    decisions,
+    approvals,
+    loading,
+    error,
+    refresh,
+    decryptApproval,
+    recordDecision
+  }
+}
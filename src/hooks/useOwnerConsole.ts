@@ -0,0 +1,175 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { CreditAnalyzerClient } from '../utils/creditAnalyzer'
+import type { TransactionExecutor } from '../utils/blockchain'
+import { describeError } from '../utils/errors'
+import type { MessageDescriptor } from '../utils/i18n'
+
+export interface PendingEvaluation {
+  user: string
+  // Block of the latest submission or update awaiting evaluation
+  submittedAtBlock: number
+}
+
+export interface EvaluationQueueItem {
+  user: string
+  status: 'queued' | 'running' | 'evaluated' | 'failed' | 'skipped'
+  hash?: string
+  error?: MessageDescriptor
+}
+
+export const useOwnerConsole = (
+  contract: CreditAnalyzerClient | null,
+  account: string | null,
+  executor: TransactionExecutor | null
+) => {
+  const [isOwner, setIsOwner] = useState<boolean>(false)
+  const [pendingUsers, setPendingUsers] = useState<PendingEvaluation[]>([])
+  const [queue, setQueue] = useState<EvaluationQueueItem[]>([])
+  const [running, setRunning] = useState<boolean>(false)
+  const [loading, setLoading] = useState<boolean>(false)
+  const [error, setError] = useState<MessageDescriptor | null>(null)
+  const stopRequested = useRef(false)
+
+  // Detect whether the connected account owns the contract
+  useEffect(() => {
+    setIsOwner(false)
+    if (!contract || !account || contract.isReadOnly) return
+
+    let cancelled = false
+    contract.getOwner()
+      .then(owner => {
+        if (!cancelled) setIsOwner(owner.toLowerCase() === account.toLowerCase())
+      })
+      .catch(error => {
+        console.warn('⚠️ Failed to read contract owner:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [contract, account])
+
+  const refresh = useCallback(async () => {
+    if (!contract || !account || !isOwner) {
+      setPendingUsers([])
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      console.log('👑 Loading users awaiting evaluation')
+
+      const [submissions, updates, evaluations] = await Promise.all([
+        contract.queryEvents(contract.filters.CreditDataSubmitted()),
+        contract.queryEvents(contract.filters.CreditDataUpdated()),
+        contract.queryEvents(contract.filters.CreditEvaluated())
+      ])
+
+      // An update discards the evaluation, so only the latest data change counts
+      const lastDataChange = new Map<string, number>()
+      for (const event of [...submissions, ...updates]) {
+        const user = event.args.user.toLowerCase()
+        lastDataChange.set(user, Math.max(lastDataChange.get(user) ?? 0, event.blockNumber))
+      }
+
+      const lastEvaluation = new Map<string, number>()
+      for (const event of evaluations) {
+        const user = event.args.user.toLowerCase()
+        lastEvaluation.set(user, Math.max(lastEvaluation.get(user) ?? 0, event.blockNumber))
+      }
+
+      const pending: PendingEvaluation[] = []
+      const seen = new Set<string>()
+      for (const event of [...submissions, ...updates]) {
+        const key = event.args.user.toLowerCase()
+        if (seen.has(key)) continue
+        seen.add(key)
+
+        const submittedAtBlock = lastDataChange.get(key)!
+        const evaluatedAtBlock = lastEvaluation.get(key)
+        if (evaluatedAtBlock === undefined || evaluatedAtBlock < submittedAtBlock) {
+          pending.push({ user: event.args.user, submittedAtBlock })
+        }
+      }
+
+      setPendingUsers(pending.sort((a, b) => a.submittedAtBlock - b.submittedAtBlock))
+    } catch (error: any) {
+      console.error('Failed to load pending evaluations:', error)
+      setError(describeError(error, 'owner.loadFailed'))
+    } finally {
+      setLoading(false)
+    }
+  }, [contract, account, isOwner])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const updateItem = (user: string, changes: Partial<EvaluationQueueItem>) => {
+    setQueue(items => items.map(item => (item.user === user ? { ...item, ...changes } : item)))
+  }
+
+  /**
+   * Evaluate users one by one. A failure is recorded on its item and the
+   * queue moves on to the next user.
+   */
+  const evaluateUsers = useCallback(async (users: string[]) => {
+    if (!contract || !executor || running || users.length === 0) return
+
+    stopRequested.current = false
+    setQueue(users.map(user => ({ user, status: 'queued' })))
+    setRunning(true)
+    console.log(`👑 Starting batch evaluation of ${users.length} users`)
+
+    for (const user of users) {
+      if (stopRequested.current) {
+        updateItem(user, { status: 'skipped' })
+        continue
+      }
+
+      updateItem(user, { status: 'running' })
+
+      try {
+        const receipt = await executor.executeTransaction(
+          contract,
+          'evaluateCreditScore',
+          [user],
+          (status) => {
+            if (status.hash) updateItem(user, { hash: status.hash })
+          },
+          { retries: 0 }
+        )
+        updateItem(user, { status: 'evaluated', hash: receipt.hash })
+      } catch (error: any) {
+        console.error(`❌ Batch evaluation failed for ${user}:`, error)
+        updateItem(user, { status: 'failed', error: describeError(error, 'owner.evaluationFailed') })
+      }
+    }
+
+    setRunning(false)
+    await refresh()
+  }, [contract, executor, running, refresh])
+
+  // Finish the current evaluation, then skip the rest
+  const stop = useCallback(() => {
+    stopRequested.current = true
+  }, [])
+
+  const clearQueue = useCallback(() => {
+    if (!running) setQueue([])
+  }, [running])
+
+  return {
+    isOwner,
+    pendingUsers,
+    queue,
+    running,
+    loading,
+    error,
+    refresh,
+    evaluateUsers,
+    stop,
+    clearQueue
+  }
+}
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react'
 import { ethers } from 'ethers'
-import { SEPOLIA_CHAIN_ID, SEPOLIA_NETWORK } from '../utils/constants'
+import { DEFAULT_CHAIN_ID, getNetworkConfig, getNetworkName, getAddChainParams, isSupportedChain } from '../utils/networks'
+import { discoverWallets, loadSelectedWallet, saveSelectedWallet } from '../utils/wallets'
+import type { WalletDetail } from '../utils/wallets'
+import { LocalizedError } from '../utils/i18n'
 
 export const useWallet = () => {
   const [account, setAccount] = useState<string | null>(null)
@@ -11,31 +14,77 @@ export const useWallet = () => {
   const [balance, setBalance] = useState<string>('0')
   const [chainId, setChainId] = useState<string>('')
   const [networkName, setNetworkName] = useState<string>('')
+  const [wallets, setWallets] = useState<WalletDetail[]>([])
+  const [selectedWallet, setSelectedWallet] = useState<WalletDetail | null>(null)
 
-  // Check if wallet is already connected on mount
+  // EIP-1193 provider of the chosen wallet
+  const ethereum = selectedWallet?.provider ?? null
+
+  // Discover installed wallets (EIP-6963) on mount
+  useEffect(() => {
+    return discoverWallets(setWallets)
+  }, [])
+
+  // Restore the wallet this browser used last, once it has announced itself
+  useEffect(() => {
+    if (selectedWallet) return
+
+    const rememberedRdns = loadSelectedWallet()
+    const remembered = wallets.find(wallet => wallet.info.rdns === rememberedRdns)
+    if (remembered) {
+      console.log('👛 Restoring wallet selection:', remembered.info.name)
+      setSelectedWallet(remembered)
+    }
+  }, [wallets, selectedWallet])
+
+  // Check if wallet is already connected once a wallet is selected
   useEffect(() => {
+    if (!ethereum) return
+
     checkConnection()
     
     // Listen for account and network changes with proper cleanup
-    if (window.ethereum) {
-      const handleAccountsChanged = (accounts: string[]) => {
+    if (ethereum.on && ethereum.removeListener) {
+      const handleAccountsChanged = async (accounts: string[]) => {
         console.log('👤 Account changed:', accounts[0] || 'disconnected')
         if (accounts.length === 0) {
           disconnect()
         } else if (accounts[0] !== account) {
-          setAccount(accounts[0])
-          updateAccountInfo(accounts[0])
+          // The signer is bound to the old account, so rebuild it for the new one
+          try {
+            const browserProvider = new ethers.BrowserProvider(ethereum)
+            const jsonRpcSigner = await browserProvider.getSigner(accounts[0])
+            setProvider(browserProvider)
+            setSigner(jsonRpcSigner)
+            setAccount(accounts[0])
+            await updateAccountInfo(accounts[0], browserProvider)
+          } catch (error) {
+            console.error('Failed to refresh provider after account change:', error)
+          }
         }
       }
 
-      const handleChainChanged = (chainId: string) => {
+      const handleChainChanged = async (chainId: string) => {
         console.log('🌐 Chain changed:', chainId)
         setChainId(chainId)
         updateNetworkInfo(chainId)
         
-        // If not on Sepolia, show warning but don't disconnect
-        if (chainId !== SEPOLIA_CHAIN_ID) {
-          console.warn('⚠️ Not connected to Sepolia testnet')
+        // If the app is not deployed on this chain, show warning but don't disconnect
+        if (!isSupportedChain(chainId)) {
+          console.warn(`⚠️ No deployment on chain ${chainId}`)
+        }
+
+        // Providers are bound to one network, so rebuild them for the new chain
+        if (account) {
+          try {
+            const browserProvider = new ethers.BrowserProvider(ethereum)
+            const jsonRpcSigner = await browserProvider.getSigner()
+            setProvider(browserProvider)
+            setSigner(jsonRpcSigner)
+            await updateAccountInfo(account, browserProvider)
+          } catch (error) {
+            console.error('Failed to refresh provider after chain change:', error)
+          }
         }
       }
 
@@ -50,27 +99,29 @@ export const useWallet = () => {
       }
 
       // Add event listeners
-      window.ethereum.on('accountsChanged', handleAccountsChanged)
-      window.ethereum.on('chainChanged', handleChainChanged)
-      window.ethereum.on('connect', handleConnect)
-      window.ethereum.on('disconnect', handleDisconnect)
+      ethereum.on('accountsChanged', handleAccountsChanged)
+      ethereum.on('chainChanged', handleChainChanged)
+      ethereum.on('connect', handleConnect)
+      ethereum.on('disconnect', handleDisconnect)
       
       return () => {
         // Cleanup event listeners
-        window.ethereum?.removeListener('accountsChanged', handleAccountsChanged)
-        window.ethereum?.removeListener('chainChanged', handleChainChanged)
-        window.ethereum?.removeListener('connect', handleConnect)
-        window.ethereum?.removeListener('disconnect', handleDisconnect)
+        ethereum.removeListener?.('accountsChanged', handleAccountsChanged)
+        ethereum.removeListener?.('chainChanged', handleChainChanged)
+        ethereum.removeListener?.('connect', handleConnect)
+        ethereum.removeListener?.('disconnect', handleDisconnect)
       }
     }
-  }, [account])
+  }, [account, ethereum])
 
   // Update account information
-  const updateAccountInfo = useCallback(async (accountAddress: string) => {
-    if (!window.ethereum || !accountAddress) return
+  const updateAccountInfo = useCallback(async (
+    accountAddress: string,
+    browserProvider: ethers.BrowserProvider | null = ethereum ? new ethers.BrowserProvider(ethereum) : null
+  ) => {
+    if (!browserProvider || !accountAddress) return
 
     try {
-      const browserProvider = new ethers.BrowserProvider(window.ethereum)
       const balance = await browserProvider.getBalance(accountAddress)
       const formattedBalance = ethers.formatEther(balance)
       setBalance(parseFloat(formattedBalance).toFixed(4))
@@ -78,23 +129,16 @@ export const useWallet = () => {
       console.error('Failed to update account info:', error)
       setBalance('0')
     }
-  }, [])
+  }, [ethereum])
 
   // Update network information
   const updateNetworkInfo = useCallback((chainId: string) => {
-    const networkNames: { [key: string]: string } = {
-      '0x1': 'Ethereum Mainnet',
-      '0xaa36a7': 'Sepolia Testnet',
-      '0x5': 'Goerli Testnet',
-      '0x7a69': 'Hardhat Local'
-    }
-    
-    setNetworkName(networkNames[chainId] || `Unknown Network (${chainId})`)
+    setNetworkName(getNetworkName(chainId))
   }, [])
 
   const checkConnection = async () => {
-    if (!window.ethereum) {
-      console.log('🚫 MetaMask not detected')
+    if (!ethereum) {
+      console.log('🚫 No wallet selected')
       return
     }
 
@@ -102,7 +146,7 @@ export const useWallet = () => {
       console.log('🔍 Checking existing wallet connection...')
       
       // Check if already connected
-      const accounts = await window.ethereum.request({ 
+      const accounts = await ethereum.request({ 
         method: 'eth_accounts' 
       })
       
@@ -110,7 +154,7 @@ export const useWallet = () => {
         console.log('✅ Wallet already connected:', accounts[0])
         
         // Get current network
-        const currentChainId = await window.ethereum.request({ 
+        const currentChainId = await ethereum.request({ 
           method: 'eth_chainId' 
         })
         
@@ -118,7 +162,7 @@ export const useWallet = () => {
         updateNetworkInfo(currentChainId)
         
         // Initialize provider and signer
-        const browserProvider = new ethers.BrowserProvider(window.ethereum)
+        const browserProvider = new ethers.BrowserProvider(ethereum)
         const jsonRpcSigner = await browserProvider.getSigner()
         
         setProvider(browserProvider)
@@ -127,35 +171,42 @@ export const useWallet = () => {
         setIsConnected(true)
         
         // Update balance
-        await updateAccountInfo(accounts[0])
+        await updateAccountInfo(accounts[0], browserProvider)
       }
     } catch (error) {
       console.error('❌ Error checking wallet connection:', error)
     }
   }
 
-  const connectWallet = async () => {
-    if (!window.ethereum) {
-      throw new Error('🚫 MetaMask not detected! Please install MetaMask to use this DApp.')
+  const connectWallet = async (wallet?: WalletDetail) => {
+    // Use the wallet picked in the UI, the remembered one, or the only one installed
+    const target = wallet ?? selectedWallet ?? (wallets.length === 1 ? wallets[0] : null)
+    if (!target) {
+      throw new LocalizedError({ key: wallets.length === 0 ? 'wallet.noWallet' : 'wallet.chooseWallet' })
     }
 
+    const walletProvider = target.provider
+
     try {
       setLoading(true)
-      console.log('🔗 Requesting wallet connection...')
+      console.log(`🔗 Requesting wallet connection (${target.info.name})...`)
 
-      // Request account access - this will trigger MetaMask popup
-      const accounts = await window.ethereum.request({
+      // Request account access - this will trigger the wallet popup
+      const accounts = await walletProvider.request({
         method: 'eth_requestAccounts'
       })
 
       if (accounts.length === 0) {
-        throw new Error('❌ No accounts found. Please unlock MetaMask.')
+        throw new LocalizedError({ key: 'wallet.noAccounts', params: { wallet: target.info.name } })
       }
 
+      setSelectedWallet(target)
+      saveSelectedWallet(target.info.rdns)
+
       console.log('✅ Account connected:', accounts[0])
 
       // Get current chain ID
-      const currentChainId = await window.ethereum.request({ 
+      const currentChainId = await walletProvider.request({ 
         method: 'eth_chainId' 
       })
       
@@ -163,21 +214,20 @@ export const useWallet = () => {
       setChainId(currentChainId)
       updateNetworkInfo(currentChainId)
 
-      // Check and switch to Sepolia network if needed
-      if (currentChainId !== SEPOLIA_CHAIN_ID) {
-        console.log('⚠️ Not on Sepolia, attempting to switch...')
-        await switchToSepolia()
+      // Stay on the wallet's chain; the UI offers a switch if there is no deployment here
+      if (!isSupportedChain(currentChainId)) {
+        console.warn(`⚠️ No deployment on chain ${currentChainId}`)
       }
 
       // Initialize ethers provider and signer
       console.log('📡 Initializing Web3 provider...')
-      const browserProvider = new ethers.BrowserProvider(window.ethereum)
+      const browserProvider = new ethers.BrowserProvider(walletProvider)
       const jsonRpcSigner = await browserProvider.getSigner()
 
       // Verify signer address matches connected account
       const signerAddress = await jsonRpcSigner.getAddress()
       if (signerAddress.toLowerCase() !== accounts[0].toLowerCase()) {
-        throw new Error('❌ Signer address mismatch')
+        throw new LocalizedError({ key: 'wallet.signerMismatch' })
       }
 
       setProvider(browserProvider)
@@ -186,61 +236,75 @@ export const useWallet = () => {
       setIsConnected(true)
 
       // Update balance
-      await updateAccountInfo(accounts[0])
+      await updateAccountInfo(accounts[0], browserProvider)
 
       console.log('🎉 Wallet connection successful!')
 
     } catch (error: any) {
       console.error('❌ Wallet connection failed:', error)
       setIsConnected(false)
-      throw error
+      if (error instanceof LocalizedError) throw error
+      // 4001: the user closed or rejected the wallet prompt
+      throw new LocalizedError({
+        key: error?.code === 4001 ? 'wallet.connectRejected' : 'wallet.connectFailed',
+        params: { wallet: target.info.name }
+      })
     } finally {
       setLoading(false)
     }
   }
 
-  const switchToSepolia = async () => {
+  const switchNetwork = async (targetChainId: string = DEFAULT_CHAIN_ID) => {
+    const network = getNetworkConfig(targetChainId)
+    if (!network) {
+      throw new LocalizedError({ key: 'wallet.unsupportedNetwork', params: { chainId: targetChainId } })
+    }
+    if (!ethereum) {
+      throw new LocalizedError({ key: 'wallet.notConnected' })
+    }
+
     try {
-      console.log('🔄 Switching to Sepolia testnet...')
+      console.log(`🔄 Switching to ${network.chainName}...`)
       
-      // First try to switch to Sepolia
+      // First try to switch to the target network
       try {
-        await window.ethereum.request({
+        await ethereum.request({
           method: 'wallet_switchEthereumChain',
-          params: [{ chainId: SEPOLIA_CHAIN_ID }],
+          params: [{ chainId: network.chainId }],
         })
-        console.log('✅ Successfully switched to Sepolia')
+        console.log(`✅ Successfully switched to ${network.chainName}`)
         
         // Update chain info after successful switch
-        setChainId(SEPOLIA_CHAIN_ID)
-        updateNetworkInfo(SEPOLIA_CHAIN_ID)
+        setChainId(network.chainId)
+        updateNetworkInfo(network.chainId)
         
       } catch (switchError: any) {
         console.log('Switch error code:', switchError.code)
         
-        // This error code indicates that the chain has not been added to MetaMask
+        // This error code indicates that the chain has not been added to the wallet
         if (switchError.code === 4902) {
-          console.log('➕ Adding Sepolia network to MetaMask...')
+          console.log(`➕ Adding ${network.chainName} to wallet...`)
           
-          await window.ethereum.request({
+          await ethereum.request({
             method: 'wallet_addEthereumChain',
-            params: [SEPOLIA_NETWORK]
+            params: [getAddChainParams(network)]
           })
           
-          console.log('✅ Sepolia network added successfully')
-          setChainId(SEPOLIA_CHAIN_ID)
-          updateNetworkInfo(SEPOLIA_CHAIN_ID)
+          console.log(`✅ ${network.chainName} added successfully`)
+          setChainId(network.chainId)
+          updateNetworkInfo(network.chainId)
           
         } else if (switchError.code === 4001) {
           // User rejected the request
-          throw new Error('❌ User rejected network switch. Please switch to Sepolia testnet manually.')
+          throw new LocalizedError({ key: 'wallet.switchRejected', params: { network: network.chainName } })
         } else {
           throw switchError
         }
       }
     } catch (error: any) {
-      console.error('❌ Error switching to Sepolia:', error)
-      throw new Error(`Failed to switch to Sepolia testnet: ${error.message}`)
+      console.error(`❌ Error switching to ${network.chainName}:`, error)
+      if (error instanceof LocalizedError) throw error
+      throw new LocalizedError({ key: 'wallet.switchFailed', params: { network: network.chainName } })
     }
   }
 
@@ -257,8 +321,12 @@ export const useWallet = () => {
 
   // Request permissions (for explicit permission request)
   const requestPermissions = async () => {
+    if (!ethereum) {
+      throw new LocalizedError({ key: 'wallet.notConnected' })
+    }
+
     try {
-      const permissions = await window.ethereum.request({
+      const permissions = await ethereum.request({
         method: 'wallet_requestPermissions',
         params: [{ eth_accounts: {} }]
       })
@@ -271,6 +339,9 @@ export const useWallet = () => {
   }
 
   return {
+    wallets,
+    selectedWallet,
+    ethereum,
     account,
     provider,
     signer,
@@ -281,7 +352,7 @@ export const useWallet = () => {
     networkName,
     connectWallet,
     disconnect,
-    switchToSepolia,
+    switchNetwork,
     requestPermissions,
     updateAccountInfo
   }
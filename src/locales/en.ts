@@ -0,0 +1,455 @@
+// English catalog. Every other catalog must define the same keys.
+// Placeholders in braces are filled in by translate().
+
+export const en = {
+  // Header
+  'header.title': '🔐 Credit Analyzer',
+  'header.subtitle': 'Confidential Credit Evaluation using Fully Homomorphic Encryption',
+  'header.language': 'Language',
+
+  // Shared
+  'common.yes': '✅ Yes',
+  'common.no': '❌ No',
+
+  // StatusInfo
+  'status.readOnly': '👀 Read-only mode - connect a wallet to submit your data',
+  'status.submitData': '📝 Submit your financial data for confidential evaluation',
+  'status.dataUpdated': '✏️ Your data was updated - evaluate again to get a new score',
+  'status.evaluate': '🔄 Evaluate your credit score using encrypted computation',
+  'status.approvalRequested': '📨 Loan approval requested - awaiting lender review',
+  'status.requestApproval': '✅ Request loan approval based on your score',
+  'status.complete': 'Credit evaluation complete!',
+  'status.simulationBanner': '🧪 FHE SIMULATION MODE — data is NOT encrypted. For local development only.',
+  'status.encryption': 'Encryption:',
+  'status.encryptionSimulation': 'Simulation ⚠️',
+  'status.encryptionFhevm': 'Zama fhEVM',
+  'status.encryptionWarming': '(preparing keys...)',
+  'status.encryptionReady': '(ready)',
+  'status.network': 'Network:',
+  'status.balance': 'ETH Balance:',
+  'status.dataSubmitted': 'Data Submitted:',
+  'status.creditEvaluated': 'Credit Evaluated:',
+  'status.evaluationOutdated': '⚠️ Outdated - data updated',
+  'status.loanRequested': 'Loan Requested:',
+  'status.totalEvaluations': 'Total Evaluations:',
+  'status.status': 'Status:',
+  'status.unsupportedNetwork': '⚠️ This DApp is not deployed on this network. Supported: {networks}',
+  'status.switchNetwork': 'Switch Network',
+  'status.needGas': '⚠️ You need Sepolia ETH to pay for gas fees. Get free testnet ETH from a faucet.',
+
+  // ActionButtons
+  'actions.evaluate': 'Evaluate Credit Score with FHE',
+  'actions.evaluating': 'Evaluating...',
+  'actions.requestApproval': 'Request Loan Approval',
+  'actions.requesting': 'Requesting...',
+  'actions.updateData': '✏️ Update Credit Data',
+
+  // CreditDataForm
+  'form.submitTitle': 'Submit Confidential Credit Data',
+  'form.updateTitle': 'Update Confidential Credit Data',
+  'form.confirmTitle': 'Replace Your Credit Data?',
+  'form.confirmEncrypted': '🔒 Your current submission is encrypted, so we cannot show what will change.',
+  'form.confirmReplace': 'Your new values will be encrypted in this browser and replace the old ones entirely.',
+  'form.confirmDiscard': '⚠️ Any existing credit evaluation and loan approval request will be discarded. You will need to evaluate your credit again.',
+  'form.back': 'Back',
+  'form.cancel': 'Cancel',
+  'form.confirmUpdate': 'Confirm Update',
+  'form.reviewUpdate': 'Review Update',
+  'form.submit': 'Submit Encrypted Data to Blockchain',
+  'form.submitting': 'Submitting...',
+  'form.income': 'Monthly Income (USD)',
+  'form.incomePlaceholder': 'Enter monthly income',
+  'form.debt': 'Total Debt (USD)',
+  'form.debtPlaceholder': 'Enter total debt',
+  'form.age': 'Age',
+  'form.agePlaceholder': 'Enter your age',
+  'form.creditHistory': 'Credit History (Years)',
+  'form.creditHistoryPlaceholder': 'Years of credit history',
+  'form.paymentHistory': 'Payment History Score (1-10)',
+  'form.paymentHistoryPlaceholder': 'Payment reliability score',
+  'presets.years': '{years} years',
+  'presets.yearsOrMore': '{years}+ years',
+  'presets.paymentFair': '{score} - Fair',
+  'presets.paymentGood': '{score} - Good',
+  'presets.paymentExcellent': '{score} - Excellent',
+  'presets.paymentPerfect': '{score} - Perfect',
+
+  // Credit data validation
+  'field.income': 'Income',
+  'field.debt': 'Debt',
+  'field.age': 'Age',
+  'field.creditHistory': 'Credit history',
+  'field.paymentHistory': 'Payment history score',
+  'validation.required': '{field} is required',
+  'validation.wholeNumber': '{field} must be a whole number',
+  'validation.typeMax': '{field} cannot exceed {max}',
+  'validation.min': '{field} must be at least {min}',
+  'validation.range': '{field} must be between {min} and {max}',
+  'validation.debtRatio': 'Debt cannot be more than 100 times your monthly income',
+  'validation.historyExceedsAge': 'Credit history cannot be longer than your age',
+
+  // TransactionExplanation
+  'explain.title': '🔍 MetaMask Transaction Implementation Principles',
+  'explain.tabFlow': 'Contract Interaction Flow',
+  'explain.tabTrigger': 'Trigger Mechanism',
+  'explain.tabState': 'State Management',
+  'explain.flowTitle': '📋 Contract Interaction Flow:',
+  'explain.flowClick': 'User clicks button',
+  'explain.flowCall': 'Call contract method',
+  'explain.flowSend': 'ethers.js sends transaction',
+  'explain.flowConfirm': 'MetaMask popup confirmation',
+  'explain.flowExecute': 'Blockchain execution',
+  'explain.triggerTitle': '⚡ Trigger Mechanism:',
+  'explain.triggerConstruct': 'When contract method is called, ethers.js constructs the transaction',
+  'explain.triggerSigner': 'Because contract instance uses signer, ethers.js knows user signature is required',
+  'explain.triggerPopup': 'This automatically triggers MetaMask transaction confirmation popup',
+  'explain.triggerSend': 'After user confirmation, transaction is sent to Sepolia testnet',
+  'explain.triggerWait': 'waits for transaction to be mined and confirmed',
+  'explain.stateTitle': '🔄 State Management:',
+  'explain.stateLoading': 'Display loading state during transaction processing',
+  'explain.stateFeedback': 'Update UI prompts and user feedback',
+  'explain.stateConfirm': 'Wait for blockchain confirmation',
+  'explain.stateRefresh': 'Refresh page state after transaction completion',
+  'explain.summaryTitle': '💡 Technical Implementation:',
+  'explain.summary': 'Interaction with smart contracts is handled through ethers.js, with MetaMask as the wallet provider automatically handling transaction signing and sending.',
+
+  // App
+  'app.readOnlyNetwork': '{network} (read-only)',
+  'app.explanation': '📚 Transaction Explanation',
+  'app.connected': 'Connected: {address}',
+
+  // WalletSection
+  'wallet.noWallet': '🚫 No wallet detected. Please install a browser wallet to use this DApp.',
+  'wallet.connectTitle': 'Connect a Wallet',
+  'wallet.notConnected': '🚫 No wallet connected',
+  'wallet.unsupportedNetwork': 'Unsupported network: {chainId}',
+  'wallet.switchRejected': '❌ Network switch rejected. Please switch to {network} manually.',
+  'wallet.switchFailed': 'Failed to switch to {network}.',
+  'wallet.chooseWallet': '👛 Please choose a wallet to connect.',
+  'wallet.noAccounts': '❌ No accounts found. Please unlock {wallet}.',
+  'wallet.signerMismatch': '❌ The wallet signed in with a different account than it connected. Please try again.',
+  'wallet.connectRejected': '❌ Connection request rejected in {wallet}.',
+  'wallet.connectFailed': 'Failed to connect to {wallet}. Please try again.',
+
+  // Footer and MessageDisplay
+  'footer.encrypted': "🛡️ All data encrypted using Zama's FHE technology",
+  'footer.privacy': 'Privacy-first credit scoring on Sepolia testnet',
+  'messages.close': 'Close message',
+
+  // ContractHealth
+  'health.contract': 'Contract ({network}):',
+  'health.unreachable': '❌ Unreachable',
+  'health.checking': 'Checking...',
+  'health.noContract': '⚠️ No contract at address',
+  'health.outdated': '⚠️ Outdated contract, redeploy required',
+  'health.online': '✅ Online',
+  'health.address': 'Address:',
+  'health.latestBlock': 'Latest Block:',
+  'health.latency': 'RPC Latency:',
+  'health.latencyValue': '{ms} ms',
+
+  // Shared by several panels
+  'common.block': 'Block {block}',
+  'common.viewTx': 'View tx ↗',
+  'common.decrypting': 'Decrypting...',
+  'common.cancel': 'Cancel',
+  'common.score': '{score} / 5',
+  'common.gwei': '{amount} gwei',
+  'common.historyTruncated': '⚠️ The contract deployment block is not configured, so only the last {blocks} blocks are searched. Older activity is missing.',
+
+  // ActivityTimeline
+  'activity.title': 'Your Activity',
+  'activity.publicTitle': 'Recent Public Activity',
+  'activity.refresh': 'Refresh activity',
+  'activity.loading': 'Loading activity...',
+  'activity.empty': 'No on-chain activity yet.',
+  'activity.loadFailed': 'Failed to load activity',
+  'events.CreditDataSubmitted': 'Encrypted data submitted',
+  'events.CreditEvaluated': 'Credit score evaluated',
+  'events.LoanApprovalRequested': 'Loan approval requested',
+  'events.CreditDataUpdated': 'Encrypted data updated',
+
+  // Credit score bands, as in CREDIT_SCORE_BANDS
+  'bands.excellent': 'Excellent',
+  'bands.good': 'Good',
+  'bands.fair': 'Fair',
+  'bands.poor': 'Poor',
+  'bands.bad': 'Bad',
+  'bands.detail': '{label} ({range})',
+
+  // CreditResult
+  'result.title': 'Your Encrypted Result',
+  'result.band': 'Credit Score Band:',
+  'result.approval': 'Loan Approval:',
+  'result.approved': '✅ Approved',
+  'result.notApproved': '❌ Not approved',
+  'result.hint': 'Your score is stored encrypted on-chain. Sign a one-time request to decrypt it locally.',
+  'result.decrypt': '🔓 Decrypt My Result',
+
+  // LenderAccess
+  'lenderAccess.title': '🏦 Share With a Lender',
+  'lenderAccess.hint': 'Lenders can only decrypt your score and loan approval after you grant them access. Access also covers later evaluations and cannot be taken back.',
+  'lenderAccess.placeholder': 'Lender address (0x...)',
+  'lenderAccess.grant': 'Grant Access',
+  'lenderAccess.granting': 'Granting...',
+
+  // DraftControls
+  'draft.savedAt': '🔐 Draft encrypted and saved at {time}',
+  'draft.autosave': '🔐 Drafts are saved encrypted as you type',
+  'draft.available': '🔐 You have an encrypted draft in this browser',
+  'draft.offer': '🔐 Save an encrypted draft while you fill the form',
+  'draft.waitingSignature': 'Waiting for signature...',
+  'draft.signRestore': 'Sign to Restore',
+  'draft.signEnable': 'Sign to Enable',
+  'draft.discard': 'Discard Draft',
+  'draft.unlockFailed': 'Failed to unlock drafts',
+  'draft.wrongKey': 'This draft was encrypted with a different key. Discard it to start a new one.',
+
+  // ScoreSimulator and StatementImporter field names
+  'fieldLabel.income': 'Monthly Income',
+  'fieldLabel.debt': 'Total Debt',
+  'fieldLabel.age': 'Age',
+  'fieldLabel.creditHistory': 'Credit History',
+  'fieldLabel.paymentHistory': 'Payment History',
+
+  // ScoreSimulator
+  'simulator.title': '🧮 What-If Simulator',
+  'simulator.note': "Runs the contract's scoring formula in this browser. Nothing here is encrypted or sent anywhere.",
+  'simulator.outOfTen': '{value} / 10',
+  'simulator.wouldApprove': 'Would be approved',
+  'simulator.wouldDeny': 'Would not be approved',
+  'simulator.stepBase': 'Base score',
+  'simulator.stepAge': 'Age bonus',
+  'simulator.stepCreditHistory': 'Credit history bonus',
+  'simulator.stepPaymentHistory': 'Payment history bonus',
+  'simulator.stepDebt': 'Debt penalty',
+  'simulator.stepIncome': 'Income bonus',
+  'simulator.stepLimits': 'Limited to 1-5',
+  'simulator.wrapped': "⚠️ The debt penalty took the score below zero. The contract's 8-bit arithmetic wraps it around to a large number instead, so the final band does not reflect these penalties.",
+  'simulator.apply': 'Use These Values',
+
+  // StatementImporter
+  'import.title': '📄 Import from a statement',
+  'import.choose': 'Choose CSV or JSON',
+  'import.privacy': 'The file is read in this browser and never uploaded.',
+  'import.summary': '{file} · {rows} rows · {format}',
+  'import.notMapped': 'Not mapped',
+  'import.deriveIncome': 'Derive income from',
+  'import.discard': 'Discard',
+  'import.fill': 'Fill Form',
+  'import.readFailed': 'Could not read this file',
+  'import.emptyCsv': 'The CSV file is empty',
+  'import.noRecords': 'The JSON file does not contain any records',
+  'import.tooLarge': 'Statement files are limited to {size} MB',
+  'import.noNumericValues': 'Column "{column}" has no numeric values',
+  'import.noDatedAmounts': 'No dated amounts found in "{dateColumn}" and "{amountColumn}"',
+  'import.sourceColumn': 'Column "{column}"',
+  'import.sourceAverage': 'Average monthly credits in "{column}" over {months} months',
+  'import.sourceAverageOneMonth': 'Average monthly credits in "{column}" over 1 month',
+
+  // OwnerConsole
+  'owner.title': '👑 Owner Console',
+  'owner.evaluatingProgress': 'Evaluating {finished}/{total}',
+  'owner.finishedProgress': 'Finished {finished}/{total}',
+  'owner.failedCount': '{count} failed',
+  'owner.stop': 'Stop After Current',
+  'owner.clear': 'Clear',
+  'owner.loading': 'Loading submissions...',
+  'owner.empty': 'Every submission has been evaluated.',
+  'owner.selectAll': 'Select all ({count} awaiting evaluation)',
+  'owner.evaluating': 'Evaluating...',
+  'owner.evaluateSelected': 'Evaluate Selected ({count})',
+  'owner.loadFailed': 'Failed to load pending evaluations',
+  'owner.evaluationFailed': 'Evaluation failed',
+  'owner.lendersTitle': 'Lenders',
+  'owner.lenderPlaceholder': 'Lender address (0x...)',
+  'owner.addLender': 'Add Lender',
+  'owner.removeLender': 'Remove Lender',
+
+  // LenderPortal
+  'lender.title': '🏦 Loan Requests',
+  'lender.refresh': 'Refresh loan requests',
+  'lender.loading': 'Loading loan requests...',
+  'lender.empty': 'No loan approval requests yet.',
+  'lender.loadFailed': 'Failed to load loan approval requests',
+  'lender.contractResult': '🔓 Contract result: {result}',
+  'lender.eligible': 'Eligible',
+  'lender.notEligible': 'Not eligible',
+  'lender.decrypt': '🔓 Decrypt Approval',
+  'lender.requested': 'Requested {time}',
+  'lender.evaluated': 'Evaluated {time}',
+  'lender.notEvaluated': 'Evaluation not found',
+  'lender.noAccess': '🔒 The applicant has not granted you access',
+  'lender.outcomeApproved': '✅ Approved',
+  'lender.outcomeDeclined': '❌ Declined',
+  'lender.decidedOn': '{outcome} on {time}',
+  'lender.notePlaceholder': 'Decision note (optional)',
+  'lender.approve': 'Approve',
+  'lender.decline': 'Decline',
+  'lender.recorded': '{count} decisions recorded in this browser',
+  'lender.exportCsv': 'Export CSV',
+  'lender.exportJson': 'Export JSON',
+
+  // TransactionReview
+  'review.title': '📝 Review Transaction',
+  'review.arguments': 'Arguments',
+  'review.argumentLabel': '{label}:',
+  'review.onlyHandles': '🔒 Only encrypted handles are sent. Your plaintext values never leave this browser.',
+  'review.fees': 'Fees',
+  'review.gasLimit': 'Gas Limit:',
+  'review.gasLimitValue': '{limit} ({source})',
+  'review.sourceEstimate': 'estimated',
+  'review.sourceLearned': 'from past transactions',
+  'review.sourceFallback': 'default',
+  'review.maxFee': 'Max Fee:',
+  'review.priorityFee': 'Priority Fee:',
+  'review.expectedCost': 'Expected Cost:',
+  'review.fiatCost': '(≈ {amount})',
+  'review.maxCost': 'Max Cost:',
+  'review.balance': 'Balance:',
+  'review.insufficientBalance': '⚠️ Your balance may not cover the maximum cost of this transaction. It could fail or be rejected by your wallet.',
+  'review.continue': 'Continue to Wallet',
+  'fees.slow': '🐢 Slow',
+  'fees.standard': '🚗 Standard',
+  'fees.fast': '🚀 Fast',
+  'argument.income': 'Income',
+  'argument.debt': 'Debt',
+  'argument.age': 'Age',
+  'argument.creditHistory': 'Credit History',
+  'argument.paymentHistory': 'Payment History',
+  'argument.inputProof': 'Input Proof',
+  'argument.user': 'User',
+  'argument.lender': 'Lender',
+  'argument.enabled': 'Enabled',
+  'argument.bytes': '{count} bytes',
+
+  // TransactionStatus
+  'txStatus.cancelling': 'Cancelling transaction...',
+  'txStatus.spedUp': 'Sped up, waiting to be mined...',
+  'txStatus.waitingMined': 'Waiting to be mined...',
+  'txStatus.waitingUser': 'Waiting for user confirmation...',
+  'txStatus.confirmingOf': 'Confirming... ({confirmations}/{required} confirmations)',
+  'txStatus.confirmingOne': 'Confirming... (1 confirmation)',
+  'txStatus.confirmingMany': 'Confirming... ({confirmations} confirmations)',
+  'txStatus.confirmed': 'Transaction confirmed!',
+  'txStatus.failed': 'Transaction failed',
+  'txStatus.spedUpConfirmed': 'Transaction confirmed via speed-up!',
+  'txStatus.cancelled': 'Transaction cancelled',
+  'txStatus.timedOutAt': 'Timed out at {confirmations}/{required} confirmations',
+  'txStatus.timedOutPending': 'Timed out - still pending',
+  'txStatus.unknown': 'Unknown status',
+  'txStatus.resumed': '(resumed)',
+  'txStatus.hash': 'Transaction Hash:',
+  'txStatus.cancellationHash': 'Cancellation Hash:',
+  'txStatus.replacementHash': 'Replacement Hash:',
+  'txStatus.blockNumber': 'Block Number:',
+  'txStatus.gasUsed': 'Gas Used:',
+  'txStatus.gasPrice': 'Gas Price:',
+  'txStatus.safeToReload': 'Transaction sent. It is safe to reload - tracking will resume.',
+  'txStatus.confirmInWallet': 'Please confirm the transaction in your wallet.',
+  'txStatus.speedUp': '⚡ Speed Up',
+  'txStatus.cancel': '🛑 Cancel',
+  'txStatus.reorged': '🔀 A chain reorganization moved this transaction. Confirmations were counted again.',
+  'txStatus.processing': 'Transaction is being processed on the network.',
+  'txStatus.timeoutMined': 'Transaction was mined but only reached {confirmations} of {required} confirmations before tracking stopped. Reload the page to keep tracking it.',
+  'txStatus.timeoutPending': 'Transaction is still pending. It may be mined later - reload the page to keep tracking it.',
+  'txStatus.replacedExternally': 'Transaction was replaced by another transaction from your wallet',
+  'txStatus.dropped': 'Transaction was dropped by the network and never mined',
+
+  // FHE errors
+  'fhe.simulationUnsafe': 'FHE simulation mode is active and data is not encrypted. Submitting is only allowed on a local development chain.',
+  'fhe.simulationDecrypt': 'Decryption is not available in FHE simulation mode',
+  'fhe.notConfigured': 'FHE is not configured for chain {chainId}',
+  'fhe.initFailed': 'Failed to initialize FHE encryption.',
+
+  // Contract methods, by CreditAnalyzerMethodName
+  'methods.submitCreditData': 'Credit data submission',
+  'methods.updateCreditData': 'Credit data update',
+  'methods.evaluateCreditScore': 'Credit evaluation',
+  'methods.requestLoanApproval': 'Loan approval request',
+  'methods.setLender': 'Lender registration',
+  'methods.grantLenderAccess': 'Lender access grant',
+
+  // App messages
+  'messages.resumedConfirmed': '{method} from before the reload was confirmed! 🟢',
+  'messages.resumedFailed': '{method} from before the reload did not go through.',
+  'messages.resumedCancelled': '{method} from before the reload was cancelled as requested.',
+  'messages.resumedReplaced': '{method} from before the reload was replaced by another transaction from your wallet.',
+  'messages.resumedTimeout': '{method} from before the reload is still pending. Tracking resumes on the next reload.',
+  'messages.connectWallet': 'Please connect your wallet first!',
+  'messages.checkCreditData': 'Please check your credit data.',
+  'messages.noGasBalance': 'Insufficient ETH balance to pay for gas fees. Please add Sepolia ETH to your wallet.',
+  'messages.insufficientGas': 'Insufficient ETH balance to pay for gas fees.',
+  'messages.initializingEncryption': 'Initializing encryption...',
+  'messages.settingUpFhe': 'Setting up homomorphic encryption...',
+  'messages.encrypting': 'Encrypting your financial data...',
+  'messages.preparingTransaction': 'Preparing encrypted transaction...',
+  'messages.transactionSent': 'Transaction sent! Please confirm in your wallet...',
+  'messages.transactionConfirming': 'Transaction confirming... ({confirmations}/{required} confirmations)',
+  'messages.dataUpdated': 'Encrypted credit data updated! Any previous evaluation was discarded 🟢',
+  'messages.dataSubmitted': 'Encrypted credit data successfully submitted to blockchain! 🟢',
+  'messages.transactionFailed': 'Transaction failed',
+  'messages.submitFailed': 'Failed to submit credit data. Please try again.',
+  'messages.updateFailed': 'Failed to update credit data. Please try again.',
+  'messages.connectWalletAndContract': 'Please ensure wallet and contract are connected!',
+  'messages.preparingEvaluation': 'Preparing credit evaluation...',
+  'messages.computingScore': 'Computing encrypted credit score...',
+  'messages.evaluationComplete': 'Credit evaluation completed using homomorphic encryption! 🟢',
+  'messages.evaluationFailed': 'Evaluation failed',
+  'messages.evaluateFailed': 'Failed to evaluate credit score. Please try again.',
+  'messages.preparingApproval': 'Preparing loan approval request...',
+  'messages.processingApproval': 'Processing loan approval request...',
+  'messages.approvalRequested': 'Loan approval request submitted successfully! 🟢',
+  'messages.approvalFailed': 'Approval request failed',
+  'messages.requestApprovalFailed': 'Failed to request loan approval. Please try again.',
+  'messages.signDecryption': 'Please sign the decryption request in your wallet...',
+  'messages.resultDecrypted': 'Credit result decrypted locally! 🟢',
+  'messages.decryptFailed': 'Failed to decrypt credit result. Please try again.',
+  'messages.confirmSpeedUp': 'Please confirm the speed-up in your wallet...',
+  'messages.speedUpSent': 'Speed-up sent! Waiting for it to be mined...',
+  'messages.speedUpFailed': 'Failed to speed up the transaction.',
+  'messages.confirmCancel': 'Please confirm the cancellation in your wallet...',
+  'messages.cancelSent': 'Cancellation sent! Waiting for it to be mined...',
+  'messages.cancelFailed': 'Failed to cancel the transaction.',
+  'messages.switchNetworkFailed': 'Failed to switch network',
+  'messages.invalidLenderAddress': 'Please enter a valid lender address.',
+  'messages.preparingGrant': 'Preparing lender access grant...',
+  'messages.lenderAccessGranted': 'Lender access granted! 🟢',
+  'messages.grantFailed': 'Failed to grant lender access. Please try again.',
+  'messages.lenderAdded': 'Lender registered! 🟢',
+  'messages.lenderRemoved': 'Lender removed. Results they could already decrypt stay readable to them.',
+  'messages.setLenderFailed': 'Failed to update the lender. Please try again.',
+
+  // Contract errors, by CreditAnalyzerError code
+  'errors.DATA_ALREADY_SUBMITTED': 'Credit data has already been submitted from this account.',
+  'errors.NO_CREDIT_DATA': 'No credit data has been submitted from this account yet.',
+  'errors.ALREADY_EVALUATED': 'This credit profile has already been evaluated.',
+  'errors.NOT_EVALUATED': 'Your credit has not been evaluated yet.',
+  'errors.NOT_AUTHORIZED': 'This account is not authorized to perform that action.',
+  'errors.NOT_A_LENDER': 'That address is not a registered lender.',
+  'errors.CONTRACT_OUTDATED': 'The contract at this address is an older version that does not accept encrypted inputs with a proof.',
+  'errors.USER_REJECTED': 'Transaction rejected in your wallet.',
+  'errors.USER_CANCELLED': 'Transaction cancelled before sending.',
+  'errors.INSUFFICIENT_FUNDS': 'Insufficient ETH balance for gas fees.',
+  'errors.PANIC': 'The contract hit an internal error',
+  'errors.CUSTOM_ERROR': 'The contract rejected the call',
+  'errors.REVERTED': 'The contract rejected the call',
+  'errors.NETWORK_ERROR': 'Could not reach the network.',
+  'errors.UNKNOWN': 'Something went wrong.',
+  'errors.withDetail': '{message}: {detail}.',
+  'errors.sentence': '{message}.',
+  'errors.withHint': '{message} {hint}',
+
+  // Recovery hints, by CreditAnalyzerError recovery action
+  'recovery.refreshStatus': 'Your status has been refreshed.',
+  'recovery.submitData': 'Submit your credit data first.',
+  'recovery.evaluate': 'Run the credit evaluation first.',
+  'recovery.switchAccount': 'Switch to the account that owns this data.',
+  'recovery.redeployContract': 'Deploy the current CreditAnalyzer contract and set VITE_CONTRACT_ADDRESS to its address.',
+  'recovery.addFunds': 'Add Sepolia ETH from a faucet and try again.',
+  'recovery.checkInput': 'Please check your input values and try again.',
+  'recovery.retry': 'Please try again in a moment.',
+  'recovery.none': ''
+}
+
+export type MessageKey = keyof typeof en
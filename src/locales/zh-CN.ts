@@ -0,0 +1,454 @@
+import type { MessageKey } from './en'
+
+// Simplified Chinese catalog
+
+export const zhCN: Record<MessageKey, string> = {
+  // Header
+  'header.title': '🔐 信用分析器',
+  'header.subtitle': '基于全同态加密的机密信用评估',
+  'header.language': '语言',
+
+  // Shared
+  'common.yes': '✅ 是',
+  'common.no': '❌ 否',
+
+  // StatusInfo
+  'status.readOnly': '👀 只读模式 - 连接钱包后即可提交数据',
+  'status.submitData': '📝 提交您的财务数据进行机密评估',
+  'status.dataUpdated': '✏️ 您的数据已更新 - 请重新评估以获取新的评分',
+  'status.evaluate': '🔄 使用加密计算评估您的信用评分',
+  'status.approvalRequested': '📨 已申请贷款审批 - 等待贷方审核',
+  'status.requestApproval': '✅ 根据您的评分申请贷款审批',
+  'status.complete': '信用评估已完成！',
+  'status.simulationBanner': '🧪 FHE 模拟模式 — 数据未加密，仅限本地开发使用。',
+  'status.encryption': '加密方式：',
+  'status.encryptionSimulation': '模拟 ⚠️',
+  'status.encryptionFhevm': 'Zama fhEVM',
+  'status.encryptionWarming': '（正在准备密钥...）',
+  'status.encryptionReady': '（已就绪）',
+  'status.network': '网络：',
+  'status.balance': 'ETH 余额：',
+  'status.dataSubmitted': '数据已提交：',
+  'status.creditEvaluated': '信用已评估：',
+  'status.evaluationOutdated': '⚠️ 已过期 - 数据已更新',
+  'status.loanRequested': '已申请贷款：',
+  'status.totalEvaluations': '评估总数：',
+  'status.status': '状态：',
+  'status.unsupportedNetwork': '⚠️ 本应用未部署在此网络。支持的网络：{networks}',
+  'status.switchNetwork': '切换网络',
+  'status.needGas': '⚠️ 您需要 Sepolia ETH 来支付 Gas 费用，可从水龙头免费领取测试网 ETH。',
+
+  // ActionButtons
+  'actions.evaluate': '使用 FHE 评估信用评分',
+  'actions.evaluating': '评估中...',
+  'actions.requestApproval': '申请贷款审批',
+  'actions.requesting': '申请中...',
+  'actions.updateData': '✏️ 更新信用数据',
+
+  // CreditDataForm
+  'form.submitTitle': '提交机密信用数据',
+  'form.updateTitle': '更新机密信用数据',
+  'form.confirmTitle': '替换您的信用数据？',
+  'form.confirmEncrypted': '🔒 您当前提交的数据已加密，因此无法显示将要变更的内容。',
+  'form.confirmReplace': '新数据将在此浏览器中加密，并完全替换旧数据。',
+  'form.confirmDiscard': '⚠️ 现有的信用评估和贷款审批申请将被作废，您需要重新评估信用。',
+  'form.back': '返回',
+  'form.cancel': '取消',
+  'form.confirmUpdate': '确认更新',
+  'form.reviewUpdate': '检查更新',
+  'form.submit': '将加密数据提交到区块链',
+  'form.submitting': '提交中...',
+  'form.income': '月收入（美元）',
+  'form.incomePlaceholder': '请输入月收入',
+  'form.debt': '总负债（美元）',
+  'form.debtPlaceholder': '请输入总负债',
+  'form.age': '年龄',
+  'form.agePlaceholder': '请输入您的年龄',
+  'form.creditHistory': '信用历史（年）',
+  'form.creditHistoryPlaceholder': '信用历史年数',
+  'form.paymentHistory': '还款记录评分（1-10）',
+  'form.paymentHistoryPlaceholder': '还款可靠性评分',
+  'presets.years': '{years} 年',
+  'presets.yearsOrMore': '{years} 年以上',
+  'presets.paymentFair': '{score} - 一般',
+  'presets.paymentGood': '{score} - 良好',
+  'presets.paymentExcellent': '{score} - 优秀',
+  'presets.paymentPerfect': '{score} - 完美',
+
+  // Credit data validation
+  'field.income': '收入',
+  'field.debt': '负债',
+  'field.age': '年龄',
+  'field.creditHistory': '信用历史',
+  'field.paymentHistory': '还款记录评分',
+  'validation.required': '请填写{field}',
+  'validation.wholeNumber': '{field}必须为整数',
+  'validation.typeMax': '{field}不能超过 {max}',
+  'validation.min': '{field}不能小于 {min}',
+  'validation.range': '{field}必须在 {min} 到 {max} 之间',
+  'validation.debtRatio': '负债不能超过月收入的 100 倍',
+  'validation.historyExceedsAge': '信用历史不能超过您的年龄',
+
+  // TransactionExplanation
+  'explain.title': '🔍 MetaMask 交易实现原理',
+  'explain.tabFlow': '合约交互流程',
+  'explain.tabTrigger': '触发机制',
+  'explain.tabState': '状态管理',
+  'explain.flowTitle': '📋 合约交互流程：',
+  'explain.flowClick': '用户点击按钮',
+  'explain.flowCall': '调用合约方法',
+  'explain.flowSend': 'ethers.js 发送交易',
+  'explain.flowConfirm': 'MetaMask 弹窗确认',
+  'explain.flowExecute': '区块链执行',
+  'explain.triggerTitle': '⚡ 触发机制：',
+  'explain.triggerConstruct': '调用合约方法时，ethers.js 构造交易',
+  'explain.triggerSigner': '由于合约实例使用了 signer，ethers.js 知道需要用户签名',
+  'explain.triggerPopup': '这会自动触发 MetaMask 交易确认弹窗',
+  'explain.triggerSend': '用户确认后，交易被发送到 Sepolia 测试网',
+  'explain.triggerWait': '等待交易被打包并确认',
+  'explain.stateTitle': '🔄 状态管理：',
+  'explain.stateLoading': '交易处理期间显示加载状态',
+  'explain.stateFeedback': '更新界面提示和用户反馈',
+  'explain.stateConfirm': '等待区块链确认',
+  'explain.stateRefresh': '交易完成后刷新页面状态',
+  'explain.summaryTitle': '💡 技术实现：',
+  'explain.summary': '通过 ethers.js 与智能合约交互，MetaMask 作为钱包提供者自动处理交易签名和发送。',
+
+  // App
+  'app.readOnlyNetwork': '{network}（只读）',
+  'app.explanation': '📚 交易说明',
+  'app.connected': '已连接：{address}',
+
+  // WalletSection
+  'wallet.noWallet': '🚫 未检测到钱包。请安装浏览器钱包以使用此 DApp。',
+  'wallet.connectTitle': '连接钱包',
+  'wallet.notConnected': '🚫 未连接钱包',
+  'wallet.unsupportedNetwork': '不支持的网络：{chainId}',
+  'wallet.switchRejected': '❌ 已拒绝切换网络。请手动切换到 {network}。',
+  'wallet.switchFailed': '切换到 {network} 失败。',
+  'wallet.chooseWallet': '👛 请选择要连接的钱包。',
+  'wallet.noAccounts': '❌ 未找到账户。请解锁 {wallet}。',
+  'wallet.signerMismatch': '❌ 钱包签名账户与已连接账户不一致。请重试。',
+  'wallet.connectRejected': '❌ 已在 {wallet} 中拒绝连接请求。',
+  'wallet.connectFailed': '连接 {wallet} 失败，请重试。',
+
+  // Footer and MessageDisplay
+  'footer.encrypted': '🛡️ 所有数据均使用 Zama 的 FHE 技术加密',
+  'footer.privacy': 'Sepolia 测试网上隐私优先的信用评分',
+  'messages.close': '关闭消息',
+
+  // ContractHealth
+  'health.contract': '合约（{network}）：',
+  'health.unreachable': '❌ 无法访问',
+  'health.checking': '检查中...',
+  'health.noContract': '⚠️ 该地址没有合约',
+  'health.outdated': '⚠️ 合约版本过旧，需要重新部署',
+  'health.online': '✅ 在线',
+  'health.address': '地址：',
+  'health.latestBlock': '最新区块：',
+  'health.latency': 'RPC 延迟：',
+  'health.latencyValue': '{ms} 毫秒',
+
+  // Shared by several panels
+  'common.block': '区块 {block}',
+  'common.viewTx': '查看交易 ↗',
+  'common.decrypting': '解密中...',
+  'common.cancel': '取消',
+  'common.score': '{score} / 5',
+  'common.gwei': '{amount} gwei',
+  'common.historyTruncated': '⚠️ 未配置合约部署区块，仅搜索最近 {blocks} 个区块，更早的活动不会显示。',
+
+  // ActivityTimeline
+  'activity.title': '您的活动',
+  'activity.publicTitle': '最近的公开活动',
+  'activity.refresh': '刷新活动',
+  'activity.loading': '正在加载活动...',
+  'activity.empty': '尚无链上活动。',
+  'activity.loadFailed': '加载活动失败',
+  'events.CreditDataSubmitted': '已提交加密数据',
+  'events.CreditEvaluated': '已评估信用评分',
+  'events.LoanApprovalRequested': '已申请贷款审批',
+  'events.CreditDataUpdated': '已更新加密数据',
+
+  // Credit score bands, as in CREDIT_SCORE_BANDS
+  'bands.excellent': '优秀',
+  'bands.good': '良好',
+  'bands.fair': '一般',
+  'bands.poor': '较差',
+  'bands.bad': '差',
+  'bands.detail': '{label}（{range}）',
+
+  // CreditResult
+  'result.title': '您的加密结果',
+  'result.band': '信用评分等级：',
+  'result.approval': '贷款审批：',
+  'result.approved': '✅ 已批准',
+  'result.notApproved': '❌ 未批准',
+  'result.hint': '您的评分以加密形式存储在链上。签署一次性请求即可在本地解密。',
+  'result.decrypt': '🔓 解密我的结果',
+
+  // LenderAccess
+  'lenderAccess.title': '🏦 与贷款方共享',
+  'lenderAccess.hint': '只有在您授权后，贷款方才能解密您的评分和贷款审批结果。授权同样适用于之后的评估，且无法撤回。',
+  'lenderAccess.placeholder': '贷款方地址 (0x...)',
+  'lenderAccess.grant': '授予访问权限',
+  'lenderAccess.granting': '授权中...',
+
+  // DraftControls
+  'draft.savedAt': '🔐 草稿已于 {time} 加密保存',
+  'draft.autosave': '🔐 输入时草稿会自动加密保存',
+  'draft.available': '🔐 此浏览器中有您的加密草稿',
+  'draft.offer': '🔐 填写表单时保存加密草稿',
+  'draft.waitingSignature': '等待签名...',
+  'draft.signRestore': '签名以恢复',
+  'draft.signEnable': '签名以启用',
+  'draft.discard': '丢弃草稿',
+  'draft.unlockFailed': '解锁草稿失败',
+  'draft.wrongKey': '此草稿使用其他密钥加密。请丢弃它并重新开始。',
+
+  // ScoreSimulator and StatementImporter field names
+  'fieldLabel.income': '月收入',
+  'fieldLabel.debt': '总债务',
+  'fieldLabel.age': '年龄',
+  'fieldLabel.creditHistory': '信用历史',
+  'fieldLabel.paymentHistory': '还款记录',
+
+  // ScoreSimulator
+  'simulator.title': '🧮 假设模拟器',
+  'simulator.note': '在此浏览器中运行合约的评分公式。这里的任何内容都不会被加密或发送。',
+  'simulator.outOfTen': '{value} / 10',
+  'simulator.wouldApprove': '将获批准',
+  'simulator.wouldDeny': '将不会获批准',
+  'simulator.stepBase': '基础分',
+  'simulator.stepAge': '年龄加分',
+  'simulator.stepCreditHistory': '信用历史加分',
+  'simulator.stepPaymentHistory': '还款记录加分',
+  'simulator.stepDebt': '债务扣分',
+  'simulator.stepIncome': '收入加分',
+  'simulator.stepLimits': '限制在 1-5',
+  'simulator.wrapped': '⚠️ 债务扣分使评分低于零。合约的 8 位运算会将其回绕为一个很大的数，因此最终等级不会反映这些扣分。',
+  'simulator.apply': '使用这些数值',
+
+  // StatementImporter
+  'import.title': '📄 从对账单导入',
+  'import.choose': '选择 CSV 或 JSON',
+  'import.privacy': '文件仅在此浏览器中读取，绝不会上传。',
+  'import.summary': '{file} · {rows} 行 · {format}',
+  'import.notMapped': '未映射',
+  'import.deriveIncome': '从以下列推算收入',
+  'import.discard': '丢弃',
+  'import.fill': '填入表单',
+  'import.readFailed': '无法读取此文件',
+  'import.emptyCsv': 'CSV 文件为空',
+  'import.noRecords': 'JSON 文件不包含任何记录',
+  'import.tooLarge': '对账单文件不能超过 {size} MB',
+  'import.noNumericValues': '列“{column}”中没有数值',
+  'import.noDatedAmounts': '在“{dateColumn}”和“{amountColumn}”中未找到带日期的金额',
+  'import.sourceColumn': '列“{column}”',
+  'import.sourceAverage': '“{column}”在 {months} 个月内的月均入账',
+  'import.sourceAverageOneMonth': '“{column}”在 1 个月内的月均入账',
+
+  // OwnerConsole
+  'owner.title': '👑 所有者控制台',
+  'owner.evaluatingProgress': '正在评估 {finished}/{total}',
+  'owner.finishedProgress': '已完成 {finished}/{total}',
+  'owner.failedCount': '{count} 个失败',
+  'owner.stop': '完成当前后停止',
+  'owner.clear': '清除',
+  'owner.loading': '正在加载提交记录...',
+  'owner.empty': '所有提交均已评估。',
+  'owner.selectAll': '全选（{count} 个待评估）',
+  'owner.evaluating': '评估中...',
+  'owner.evaluateSelected': '评估所选（{count}）',
+  'owner.loadFailed': '加载待评估列表失败',
+  'owner.evaluationFailed': '评估失败',
+  'owner.lendersTitle': '贷款方',
+  'owner.lenderPlaceholder': '贷款方地址 (0x...)',
+  'owner.addLender': '添加贷款方',
+  'owner.removeLender': '移除贷款方',
+
+  // LenderPortal
+  'lender.title': '🏦 贷款申请',
+  'lender.refresh': '刷新贷款申请',
+  'lender.loading': '正在加载贷款申请...',
+  'lender.empty': '尚无贷款审批申请。',
+  'lender.loadFailed': '加载贷款审批申请失败',
+  'lender.contractResult': '🔓 合约结果：{result}',
+  'lender.eligible': '符合条件',
+  'lender.notEligible': '不符合条件',
+  'lender.decrypt': '🔓 解密审批结果',
+  'lender.requested': '申请于 {time}',
+  'lender.evaluated': '评估于 {time}',
+  'lender.notEvaluated': '未找到评估记录',
+  'lender.noAccess': '🔒 申请人尚未授予您访问权限',
+  'lender.outcomeApproved': '✅ 已批准',
+  'lender.outcomeDeclined': '❌ 已拒绝',
+  'lender.decidedOn': '{outcome}，时间 {time}',
+  'lender.notePlaceholder': '决定备注（可选）',
+  'lender.approve': '批准',
+  'lender.decline': '拒绝',
+  'lender.recorded': '此浏览器中已记录 {count} 项决定',
+  'lender.exportCsv': '导出 CSV',
+  'lender.exportJson': '导出 JSON',
+
+  // TransactionReview
+  'review.title': '📝 确认交易',
+  'review.arguments': '参数',
+  'review.argumentLabel': '{label}：',
+  'review.onlyHandles': '🔒 仅发送加密句柄。您的明文数值绝不会离开此浏览器。',
+  'review.fees': '费用',
+  'review.gasLimit': 'Gas 上限：',
+  'review.gasLimitValue': '{limit}（{source}）',
+  'review.sourceEstimate': '估算值',
+  'review.sourceLearned': '来自以往交易',
+  'review.sourceFallback': '默认值',
+  'review.maxFee': '最高费用：',
+  'review.priorityFee': '优先费用：',
+  'review.expectedCost': '预计成本：',
+  'review.fiatCost': '（≈ {amount}）',
+  'review.maxCost': '最高成本：',
+  'review.balance': '余额：',
+  'review.insufficientBalance': '⚠️ 您的余额可能不足以支付此交易的最高成本。交易可能失败或被钱包拒绝。',
+  'review.continue': '前往钱包确认',
+  'fees.slow': '🐢 慢速',
+  'fees.standard': '🚗 标准',
+  'fees.fast': '🚀 快速',
+  'argument.income': '收入',
+  'argument.debt': '债务',
+  'argument.age': '年龄',
+  'argument.creditHistory': '信用历史',
+  'argument.paymentHistory': '还款记录',
+  'argument.inputProof': '输入证明',
+  'argument.user': '用户',
+  'argument.lender': '贷款方',
+  'argument.enabled': '启用',
+  'argument.bytes': '{count} 字节',
+
+  // TransactionStatus
+  'txStatus.cancelling': '正在取消交易...',
+  'txStatus.spedUp': '已加速，等待打包...',
+  'txStatus.waitingMined': '等待打包...',
+  'txStatus.waitingUser': '等待用户确认...',
+  'txStatus.confirmingOf': '确认中...（{confirmations}/{required} 个确认）',
+  'txStatus.confirmingOne': '确认中...（1 个确认）',
+  'txStatus.confirmingMany': '确认中...（{confirmations} 个确认）',
+  'txStatus.confirmed': '交易已确认！',
+  'txStatus.failed': '交易失败',
+  'txStatus.spedUpConfirmed': '交易已通过加速确认！',
+  'txStatus.cancelled': '交易已取消',
+  'txStatus.timedOutAt': '在 {confirmations}/{required} 个确认时超时',
+  'txStatus.timedOutPending': '已超时 - 仍在等待中',
+  'txStatus.unknown': '未知状态',
+  'txStatus.resumed': '（已恢复）',
+  'txStatus.hash': '交易哈希：',
+  'txStatus.cancellationHash': '取消交易哈希：',
+  'txStatus.replacementHash': '替换交易哈希：',
+  'txStatus.blockNumber': '区块号：',
+  'txStatus.gasUsed': '已用 Gas：',
+  'txStatus.gasPrice': 'Gas 价格：',
+  'txStatus.safeToReload': '交易已发送。可以放心刷新页面 - 跟踪会自动恢复。',
+  'txStatus.confirmInWallet': '请在钱包中确认交易。',
+  'txStatus.speedUp': '⚡ 加速',
+  'txStatus.cancel': '🛑 取消',
+  'txStatus.reorged': '🔀 链重组移动了此交易。确认数已重新计算。',
+  'txStatus.processing': '交易正在网络上处理中。',
+  'txStatus.timeoutMined': '交易已打包，但在停止跟踪前仅达到 {required} 个确认中的 {confirmations} 个。刷新页面即可继续跟踪。',
+  'txStatus.timeoutPending': '交易仍在等待中，稍后可能会被打包 - 刷新页面即可继续跟踪。',
+  'txStatus.replacedExternally': '交易已被您钱包中的另一笔交易替换',
+  'txStatus.dropped': '交易已被网络丢弃，未被打包',
+
+  // FHE errors
+  'fhe.simulationUnsafe': 'FHE 模拟模式已启用，数据未加密。仅允许在本地开发链上提交。',
+  'fhe.simulationDecrypt': 'FHE 模拟模式下无法解密',
+  'fhe.notConfigured': '链 {chainId} 未配置 FHE',
+  'fhe.initFailed': '初始化 FHE 加密失败。',
+
+  // Contract methods, by CreditAnalyzerMethodName
+  'methods.submitCreditData': '信用数据提交',
+  'methods.updateCreditData': '信用数据更新',
+  'methods.evaluateCreditScore': '信用评估',
+  'methods.requestLoanApproval': '贷款审批申请',
+  'methods.setLender': '贷款方登记',
+  'methods.grantLenderAccess': '贷款方访问授权',
+
+  // App messages
+  'messages.resumedConfirmed': '刷新前发起的{method}已确认！🟢',
+  'messages.resumedFailed': '刷新前发起的{method}未能完成。',
+  'messages.resumedCancelled': '刷新前发起的{method}已按要求取消。',
+  'messages.resumedReplaced': '刷新前发起的{method}已被您钱包中的另一笔交易替换。',
+  'messages.resumedTimeout': '刷新前发起的{method}仍在等待确认。下次刷新时将继续跟踪。',
+  'messages.connectWallet': '请先连接钱包！',
+  'messages.checkCreditData': '请检查您的信用数据。',
+  'messages.noGasBalance': 'ETH 余额不足以支付 Gas 费用，请向钱包充值 Sepolia ETH。',
+  'messages.insufficientGas': 'ETH 余额不足以支付 Gas 费用。',
+  'messages.initializingEncryption': '正在初始化加密...',
+  'messages.settingUpFhe': '正在设置同态加密...',
+  'messages.encrypting': '正在加密您的财务数据...',
+  'messages.preparingTransaction': '正在准备加密交易...',
+  'messages.transactionSent': '交易已发送！请在钱包中确认...',
+  'messages.transactionConfirming': '交易确认中...（{confirmations}/{required} 个确认）',
+  'messages.dataUpdated': '加密信用数据已更新！之前的评估已作废 🟢',
+  'messages.dataSubmitted': '加密信用数据已成功提交到区块链！🟢',
+  'messages.transactionFailed': '交易失败',
+  'messages.submitFailed': '提交信用数据失败，请重试。',
+  'messages.updateFailed': '更新信用数据失败，请重试。',
+  'messages.connectWalletAndContract': '请确认钱包和合约均已连接！',
+  'messages.preparingEvaluation': '正在准备信用评估...',
+  'messages.computingScore': '正在计算加密信用评分...',
+  'messages.evaluationComplete': '已使用同态加密完成信用评估！🟢',
+  'messages.evaluationFailed': '评估失败',
+  'messages.evaluateFailed': '信用评估失败，请重试。',
+  'messages.preparingApproval': '正在准备贷款审批申请...',
+  'messages.processingApproval': '正在处理贷款审批申请...',
+  'messages.approvalRequested': '贷款审批申请已成功提交！🟢',
+  'messages.approvalFailed': '审批申请失败',
+  'messages.requestApprovalFailed': '申请贷款审批失败，请重试。',
+  'messages.signDecryption': '请在钱包中签署解密请求...',
+  'messages.resultDecrypted': '信用结果已在本地解密！🟢',
+  'messages.decryptFailed': '解密信用结果失败，请重试。',
+  'messages.confirmSpeedUp': '请在钱包中确认加速...',
+  'messages.speedUpSent': '加速交易已发送！等待打包...',
+  'messages.speedUpFailed': '加速交易失败。',
+  'messages.confirmCancel': '请在钱包中确认取消...',
+  'messages.cancelSent': '取消交易已发送！等待打包...',
+  'messages.cancelFailed': '取消交易失败。',
+  'messages.switchNetworkFailed': '切换网络失败',
+  'messages.invalidLenderAddress': '请输入有效的贷款方地址。',
+  'messages.preparingGrant': '正在准备贷款方访问授权...',
+  'messages.lenderAccessGranted': '已授予贷款方访问权限！🟢',
+  'messages.grantFailed': '授予贷款方访问权限失败，请重试。',
+  'messages.lenderAdded': '贷款方已登记！🟢',
+  'messages.lenderRemoved': '贷款方已移除。其已能解密的结果仍对其可读。',
+  'messages.setLenderFailed': '更新贷款方失败，请重试。',
+
+  // Contract errors, by CreditAnalyzerError code
+  'errors.DATA_ALREADY_SUBMITTED': '此账户已提交过信用数据。',
+  'errors.NO_CREDIT_DATA': '此账户尚未提交信用数据。',
+  'errors.ALREADY_EVALUATED': '此信用档案已完成评估。',
+  'errors.NOT_EVALUATED': '您的信用尚未评估。',
+  'errors.NOT_AUTHORIZED': '此账户无权执行该操作。',
+  'errors.NOT_A_LENDER': '该地址不是已登记的贷款方。',
+  'errors.CONTRACT_OUTDATED': '此地址上的合约是旧版本，不接受带证明的加密输入。',
+  'errors.USER_REJECTED': '交易已在钱包中被拒绝。',
+  'errors.USER_CANCELLED': '交易在发送前已取消。',
+  'errors.INSUFFICIENT_FUNDS': 'ETH 余额不足以支付 Gas 费用。',
+  'errors.PANIC': '合约发生内部错误',
+  'errors.CUSTOM_ERROR': '合约拒绝了此调用',
+  'errors.REVERTED': '合约拒绝了此调用',
+  'errors.NETWORK_ERROR': '无法连接到网络。',
+  'errors.UNKNOWN': '出现了问题。',
+  'errors.withDetail': '{message}：{detail}。',
+  'errors.sentence': '{message}。',
+  'errors.withHint': '{message}{hint}',
+
+  // Recovery hints, by CreditAnalyzerError recovery action
+  'recovery.refreshStatus': '您的状态已刷新。',
+  'recovery.submitData': '请先提交您的信用数据。',
+  'recovery.evaluate': '请先进行信用评估。',
+  'recovery.switchAccount': '请切换到拥有此数据的账户。',
+  'recovery.redeployContract': '请部署当前版本的 CreditAnalyzer 合约，并将 VITE_CONTRACT_ADDRESS 设置为其地址。',
+  'recovery.addFunds': '请从水龙头领取 Sepolia ETH 后重试。',
+  'recovery.checkInput': '请检查输入值后重试。',
+  'recovery.retry': '请稍后重试。',
+  'recovery.none': ''
+}
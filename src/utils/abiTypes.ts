@@ -0,0 +1,67 @@
+// Type-level reading of human-readable ABI strings, e.g.
+// "function isCreditEvaluated(address) external view returns (bool)".
+// Used to check hand-written contract typings against the ABI at compile time.
+
+// TypeScript type ethers decodes a Solidity type to, or accepts for it
+type SolidityType<T extends string> =
+  T extends 'bool' ? boolean
+  : T extends `uint${string}` | `int${string}` ? bigint
+  : T extends 'address' | 'string' | `bytes${string}` ? string
+  : unknown
+
+// "a, b, c" -> ['a', 'b', 'c']
+type SplitParams<P extends string> =
+  P extends '' ? []
+  : P extends `${infer Head}, ${infer Rest}` ? [Head, ...SplitParams<Rest>]
+  : [P]
+
+// Drop a parameter name ("address user" -> "address")
+type ParamType<P extends string> = P extends `${infer T} ${string}` ? T : P
+
+type SolidityTypes<T extends string[]> = { [I in keyof T]: SolidityType<ParamType<T[I] & string>> }
+
+type ParamTypes<P extends string> = SolidityTypes<SplitParams<P>>
+
+type FunctionSignature<S> = S extends `function ${infer Name}(${infer Params}) ${infer Modifiers}`
+  ? { name: Name; params: Params; modifiers: Modifiers }
+  : never
+
+type Returns<M extends string> = M extends `${string}returns (${infer R})` ? SolidityType<ParamType<R>> : void
+
+/**
+ * Non-view functions of an ABI, by name, with their argument types
+ */
+export type AbiMethods<Abi extends readonly string[]> = {
+  [F in FunctionSignature<Abi[number]> as F['modifiers'] extends `${string}view${string}` ? never : F['name']]:
+    ParamTypes<F['params']>
+}
+
+/**
+ * View functions of an ABI, by name, with their argument and return types
+ */
+export type AbiViews<Abi extends readonly string[]> = {
+  [F in FunctionSignature<Abi[number]> as F['modifiers'] extends `${string}view${string}` ? F['name'] : never]:
+    { args: ParamTypes<F['params']>; returns: Returns<F['modifiers']> }
+}
+
+type EventSignature<S> = S extends `event ${infer Name}(${infer Params})` ? { name: Name; params: Params } : never
+
+// "address indexed user" -> ['user', 'address']
+type EventParam<P extends string> =
+  P extends `${infer T} indexed ${infer N}` ? [N, T]
+  : P extends `${infer T} ${infer N}` ? [N, T]
+  : never
+
+type EventArgs<P extends string> = {
+  [E in EventParam<SplitParams<P>[number]> as E[0]]: SolidityType<E[1]>
+}
+
+/**
+ * Events of an ABI, by name, with their decoded arguments
+ */
+export type AbiEvents<Abi extends readonly string[]> = {
+  [E in EventSignature<Abi[number]> as E['name']]: EventArgs<E['params']>
+}
+
+// True when A and B are assignable to each other
+export type Equals<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false
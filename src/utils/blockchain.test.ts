@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { ethers } from 'ethers'
+import { GasEstimator, TransactionExecutor, TransactionTracker } from './blockchain'
+import { loadPendingTransactions } from './pendingTransactions'
+import type { CreditAnalyzerClient } from './creditAnalyzer'
+
+const HASH = '0x' + '11'.repeat(32)
+
+const sentTransaction = {
+  hash: HASH,
+  from: '0x' + '22'.repeat(20),
+  to: '0x' + '33'.repeat(20),
+  data: '0x',
+  value: BigInt(0),
+  nonce: 7,
+  chainId: BigInt(11155111),
+  gasLimit: BigInt(100000),
+  maxFeePerGas: BigInt(2000000000),
+  maxPriorityFeePerGas: BigInt(1000000000),
+  gasPrice: null
+}
+
+const mockClient = () => ({
+  address: sentTransaction.to,
+  contract: { interface: new ethers.Interface([]) },
+  send: vi.fn().mockResolvedValue(sentTransaction)
+}) as unknown as CreditAnalyzerClient & { send: ReturnType<typeof vi.fn> }
+
+// Pending transactions and gas samples are kept in local storage
+const memoryStorage = () => {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value) },
+    removeItem: (key: string) => { items.delete(key) }
+  }
+}
+
+describe('TransactionExecutor.executeTransaction', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage())
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps tracking the sent hash when receipt polling hits a network error', async () => {
+    vi.spyOn(GasEstimator.prototype, 'estimateContractCall').mockResolvedValue({
+      gasLimit: sentTransaction.gasLimit,
+      maxFeePerGas: sentTransaction.maxFeePerGas,
+      maxPriorityFeePerGas: sentTransaction.maxPriorityFeePerGas,
+      feeStrategy: 'standard'
+    } as any)
+    const track = vi.spyOn(TransactionTracker.prototype, 'trackTransaction')
+      .mockRejectedValueOnce(Object.assign(new Error('network hiccup'), { code: 'NETWORK_ERROR' }))
+      .mockResolvedValueOnce({ hash: HASH, status: 1, gasUsed: BigInt(90000) } as any)
+
+    const client = mockClient()
+    const executor = new TransactionExecutor({} as ethers.BrowserProvider)
+    const receipt = await executor.executeTransaction(client, 'requestLoanApproval', [], () => {}, { confirmations: 1 })
+
+    expect(receipt.status).toBe(1)
+    expect(client.send).toHaveBeenCalledTimes(1)
+    expect(track).toHaveBeenCalledTimes(2)
+    expect(track.mock.calls.map(call => call[0])).toEqual([HASH, HASH])
+    expect(loadPendingTransactions(sentTransaction.from, '0xaa36a7')).toEqual([])
+  })
+})
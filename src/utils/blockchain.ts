@@ -1,14 +1,53 @@
 import { ethers } from 'ethers'
-import type { ContractTransaction, TransactionReceipt } from 'ethers'
+import type { TransactionReceipt } from 'ethers'
+import { describeArguments } from './creditAnalyzer'
+import type { ArgumentSummary, CreditAnalyzerClient, CreditAnalyzerMethodName, CreditAnalyzerMethodArgs } from './creditAnalyzer'
+import { getNetworkConfig } from './networks'
+import type { NetworkConfig } from './networks'
+import { convertEthToFiat } from './priceFeed'
+import { FEE_STRATEGIES, getFeeSuggestions } from './feeStrategies'
+import type { FeeStrategy, FeeSuggestions } from './feeStrategies'
+import { getLearnedGasLimit, recordGasUsed } from './gasUsage'
+import {
+  CreditAnalyzerError,
+  parseContractError,
+  createRevertError,
+  getReceiptRevertReason,
+  getErrorDescriptor,
+  describeError
+} from './errors'
+import { LocalizedError } from './i18n'
+import type { MessageDescriptor } from './i18n'
+import { savePendingTransaction, removePendingTransaction, addPendingReplacement } from './pendingTransactions'
+import type { PendingTransaction } from './pendingTransactions'
+
+// How a pending transaction was replaced using the same nonce
+export type ReplacementKind = 'speedup' | 'cancel'
+
+export interface TransactionReplacement {
+  hash: string
+  kind: ReplacementKind
+}
 
 export interface TransactionStatus {
   hash?: string
-  status: 'pending' | 'confirming' | 'confirmed' | 'failed'
+  method?: CreditAnalyzerMethodName
+  // Set when tracking was picked up again after a page reload
+  resumed?: boolean
+  // 'timeout' means tracking gave up while the transaction was still unconfirmed
+  status: 'pending' | 'confirming' | 'confirmed' | 'failed' | 'replaced' | 'cancelled' | 'timeout'
   confirmations: number
+  // Depth the tracker waits for before reporting 'confirmed'
+  requiredConfirmations?: number
+  // Set once a chain reorganization dropped or moved the receipt
+  reorged?: boolean
+  // Latest speed-up or cancel transaction sent for this nonce
+  replacement?: TransactionReplacement
   gasUsed?: string
   effectiveGasPrice?: string
   blockNumber?: number
-  error?: string
+  // Why the transaction failed or tracking stopped
+  error?: MessageDescriptor
 }
 
 export interface GasEstimate {
@@ -16,23 +55,105 @@ export interface GasEstimate {
   gasPrice: bigint
   maxFeePerGas?: bigint
   maxPriorityFeePerGas?: bigint
+  // Worst-case cost at maxFeePerGas, in ETH and in USD when a price is available
   estimatedCost: string
   estimatedCostUSD?: string
+  feeStrategy: FeeStrategy
+  // Fee suggestions for every strategy, when the chain supports eth_feeHistory
+  feeSuggestions?: FeeSuggestions
+  gasLimitSource: 'estimate' | 'learned' | 'fallback'
+}
+
+// Everything the user confirms in the review dialog before the wallet opens
+export interface TransactionReview {
+  method: CreditAnalyzerMethodName
+  arguments: ArgumentSummary[]
+  gasLimit: bigint
+  gasLimitSource: GasEstimate['gasLimitSource']
+  feeOptions: FeeOption[]
+  selectedStrategy: FeeStrategy
+  fiatCurrency: string
+  // ETH
+  balance: string
+}
+
+// Cost of the reviewed transaction under one fee strategy
+export interface FeeOption {
+  strategy: FeeStrategy
+  maxFeePerGas: bigint
+  maxPriorityFeePerGas?: bigint
+  // Costs in ETH
+  expectedCost: string
+  maxCost: string
+  expectedCostFiat: string | null
+  insufficientBalance: boolean
+}
+
+// Currency used for fiat cost estimates
+const REVIEW_CURRENCY = 'usd'
+
+// Delay between receipt checks while a transaction is pending
+const RECEIPT_POLL_INTERVAL = 4000
+
+// How long to track a transaction before reporting it as timed out
+export const TRANSACTION_TIMEOUT = 300000 // 5 minutes
+
+export interface TrackingOptions {
+  // Blocks on top of the receipt before it counts as confirmed
+  confirmations?: number
+  // Milliseconds to wait before reporting the transaction as timed out
+  timeout?: number
+}
+
+// Confirmation depth for a chain, from its network config
+export const getRequiredConfirmations = (chainId: string): number =>
+  getNetworkConfig(chainId)?.confirmations ?? 1
+
+/**
+ * Tracking gave up. Once mined, say how deep the receipt got instead of calling it pending.
+ */
+const createTimeoutError = (progress?: { confirmations: number; required: number }): Error => {
+  const error: any = new LocalizedError(progress
+    ? { key: 'txStatus.timeoutMined', params: progress }
+    : { key: 'txStatus.timeoutPending' })
+  error.code = 'TRANSACTION_TIMEOUT'
+  return error
+}
+
+interface MinedTransaction {
+  receipt: TransactionReceipt
+  // Set when a replacement was mined instead of the tracked transaction
+  replacement?: TransactionReplacement
 }
 
 // Transaction status tracker
 export class TransactionTracker {
-  private provider: ethers.BrowserProvider
+  private provider: ethers.Provider
+  // Speed-up and cancel transactions sent for a tracked hash, oldest first
+  private replacements = new Map<string, TransactionReplacement[]>()
 
-  constructor(provider: ethers.BrowserProvider) {
+  constructor(provider: ethers.Provider) {
     this.provider = provider
   }
 
+  /**
+   * Follow a replacement sent with the same nonce as a tracked transaction.
+   * Whichever of them is mined first ends the tracking.
+   */
+  addReplacement(txHash: string, replacement: TransactionReplacement): void {
+    const existing = this.replacements.get(txHash) || []
+    this.replacements.set(txHash, [...existing, replacement])
+  }
+
   async trackTransaction(
     txHash: string,
-    onStatusUpdate: (status: TransactionStatus) => void
+    onStatusUpdate: (status: TransactionStatus) => void,
+    options: TrackingOptions = {}
   ): Promise<TransactionReceipt> {
-    console.log('📡 Tracking transaction:', txHash)
+    const { confirmations = 1, timeout } = options
+    const deadline = timeout ? Date.now() + timeout : Infinity
+
+    console.log('📡 Tracking transaction:', txHash, { confirmations, timeout })
     
     // Initial status
     onStatusUpdate({
@@ -41,49 +162,181 @@ export class TransactionTracker {
       confirmations: 0
     })
 
+    let lastCount = 0
+    let lastReplacement: TransactionReplacement | undefined
+
     try {
-      // Wait for transaction to be mined
-      const receipt = await this.provider.waitForTransaction(txHash, 1)
-      
-      if (!receipt) {
-        throw new Error('Transaction receipt not found')
+      // Wait for the transaction or one of its replacements to be mined
+      let mined = await this.waitForMined(txHash, deadline)
+      let { receipt } = mined
+      let reorged = false
+
+      // Follow the receipt until it is buried deep enough
+      while (true) {
+        lastReplacement = mined.replacement
+
+        const [currentReceipt, currentBlock] = await Promise.all([
+          this.provider.getTransactionReceipt(receipt.hash),
+          this.provider.getBlockNumber()
+        ])
+
+        if (!currentReceipt) {
+          // A reorg removed the block; the transaction is back in the mempool or gone
+          console.warn('🔀 Reorg dropped the receipt for', receipt.hash)
+          reorged = true
+          lastCount = 0
+          onStatusUpdate({
+            hash: txHash,
+            status: 'pending',
+            confirmations: 0,
+            replacement: mined.replacement,
+            reorged
+          })
+
+          mined = await this.waitForMined(txHash, deadline)
+          receipt = mined.receipt
+          continue
+        }
+
+        if (currentReceipt.blockHash !== receipt.blockHash) {
+          console.warn('🔀 Reorg moved transaction to block', currentReceipt.blockNumber)
+          reorged = true
+        }
+        receipt = currentReceipt
+
+        const count = Math.max(0, currentBlock - receipt.blockNumber + 1)
+        if (count >= confirmations) break
+
+        if (count !== lastCount) {
+          lastCount = count
+          onStatusUpdate({
+            hash: txHash,
+            status: 'confirming',
+            confirmations: count,
+            requiredConfirmations: confirmations,
+            replacement: mined.replacement,
+            blockNumber: receipt.blockNumber,
+            reorged
+          })
+        }
+
+        if (Date.now() >= deadline) {
+          throw createTimeoutError({ confirmations: count, required: confirmations })
+        }
+        await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL))
       }
 
+      const { replacement } = mined
+
       console.log('✅ Transaction confirmed:', {
-        hash: txHash,
+        hash: receipt.hash,
+        replaces: replacement ? txHash : undefined,
         blockNumber: receipt.blockNumber,
         gasUsed: receipt.gasUsed.toString(),
         status: receipt.status
       })
 
+      let status: TransactionStatus['status'] = receipt.status === 1 ? 'confirmed' : 'failed'
+      if (replacement && receipt.status === 1) {
+        status = replacement.kind === 'cancel' ? 'cancelled' : 'replaced'
+      }
+
       // Update final status
       onStatusUpdate({
         hash: txHash,
-        status: receipt.status === 1 ? 'confirmed' : 'failed',
-        confirmations: 1,
+        status,
+        confirmations,
+        replacement,
         gasUsed: ethers.formatUnits(receipt.gasUsed, 'wei'),
         effectiveGasPrice: receipt.gasPrice ? ethers.formatUnits(receipt.gasPrice, 'gwei') : undefined,
-        blockNumber: receipt.blockNumber
+        blockNumber: receipt.blockNumber,
+        reorged
       })
 
       return receipt
 
     } catch (error: any) {
+      if (error.code === 'TRANSACTION_TIMEOUT') {
+        // Not a failure: the transaction may still be mined later
+        console.warn('⌛ Stopped waiting for transaction:', txHash)
+        onStatusUpdate({
+          hash: txHash,
+          status: 'timeout',
+          confirmations: lastCount,
+          requiredConfirmations: confirmations,
+          replacement: lastReplacement,
+          error: describeError(error, 'txStatus.timeoutPending')
+        })
+        throw error
+      }
+
       console.error('❌ Transaction tracking failed:', error)
       
       onStatusUpdate({
         hash: txHash,
-        status: 'failed',
+        status: error.code === 'TRANSACTION_REPLACED' ? 'replaced' : 'failed',
         confirmations: 0,
-        error: error.message
+        error: describeError(error, 'txStatus.failed')
       })
       
       throw error
+    } finally {
+      this.replacements.delete(txHash)
+    }
+  }
+
+  private async waitForMined(txHash: string, deadline: number): Promise<MinedTransaction> {
+    // Sender and nonce let us notice a replacement sent from outside the app
+    const transaction = await this.provider.getTransaction(txHash)
+
+    while (true) {
+      const mined = await this.findMined(txHash)
+      if (mined) return mined
+
+      if (transaction) {
+        const minedNonce = await this.provider.getTransactionCount(transaction.from, 'latest')
+        if (minedNonce > transaction.nonce) {
+          // The nonce was used. Check our hashes once more in case a receipt
+          // landed between the calls above before blaming an unknown transaction.
+          const lateMined = await this.findMined(txHash)
+          if (lateMined) return lateMined
+
+          const error: any = new LocalizedError({ key: 'txStatus.replacedExternally' })
+          error.code = 'TRANSACTION_REPLACED'
+          throw error
+        }
+      }
+
+      if (Date.now() >= deadline) {
+        throw createTimeoutError()
+      }
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_INTERVAL))
     }
   }
+
+  private async findMined(txHash: string): Promise<MinedTransaction | null> {
+    const receipt = await this.provider.getTransactionReceipt(txHash)
+    if (receipt) return { receipt }
+
+    // Newest replacements pay the highest fees and are the most likely to be mined
+    const candidates = [...(this.replacements.get(txHash) || [])].reverse()
+    for (const replacement of candidates) {
+      const replacementReceipt = await this.provider.getTransactionReceipt(replacement.hash)
+      if (replacementReceipt) return { receipt: replacementReceipt, replacement }
+    }
+
+    return null
+  }
 }
 
 // Gas estimation utilities
+
+// Headroom over eth_estimateGas, in percent
+const GAS_LIMIT_BUFFER = BigInt(125)
+// Used when estimation fails and no receipts have been seen for the method yet
+const FALLBACK_GAS_LIMIT = BigInt(450000)
+const DEFAULT_GAS_LIMIT = BigInt(400000)
+
 export class GasEstimator {
   private provider: ethers.BrowserProvider
 
@@ -91,17 +344,24 @@ export class GasEstimator {
     this.provider = provider
   }
 
-  async estimateContractCall(
-    contract: ethers.Contract,
-    methodName: string,
-    args: any[] = []
+  async estimateContractCall<M extends CreditAnalyzerMethodName>(
+    client: CreditAnalyzerClient,
+    methodName: M,
+    args: CreditAnalyzerMethodArgs<M>,
+    feeStrategy: FeeStrategy = 'standard'
   ): Promise<GasEstimate> {
+    const network = await this.provider.getNetwork()
+    const learnedGasLimit = getLearnedGasLimit(`0x${network.chainId.toString(16)}`, methodName)
+
     try {
-      console.log(`⛽ Estimating gas for ${methodName}...`)
+      console.log(`⛽ Estimating gas for ${methodName} (${feeStrategy})...`)
       console.log('📝 Arguments for estimation:', args)
       
-      // Get current gas price
-      const feeData = await this.provider.getFeeData()
+      // Get current gas price and recent fee percentiles
+      const [feeData, feeSuggestions] = await Promise.all([
+        this.provider.getFeeData(),
+        getFeeSuggestions(this.provider)
+      ])
       console.log('💰 Fee data:', {
         gasPrice: feeData.gasPrice ? ethers.formatUnits(feeData.gasPrice, 'gwei') : 'null',
         maxFeePerGas: feeData.maxFeePerGas ? ethers.formatUnits(feeData.maxFeePerGas, 'gwei') : 'null',
@@ -110,31 +370,46 @@ export class GasEstimator {
 
       // Try gas estimation with error handling
       let gasLimit: bigint
+      let gasLimitSource: GasEstimate['gasLimitSource']
       try {
-        gasLimit = await contract[methodName].estimateGas(...args)
-        console.log(`📊 Estimated gas limit: ${gasLimit.toString()}`)
+        const estimated = await client.estimateGas(methodName, args)
+        console.log(`📊 Estimated gas limit: ${estimated.toString()}`)
+
+        gasLimit = (estimated * GAS_LIMIT_BUFFER) / BigInt(100)
+        gasLimitSource = 'estimate'
+
+        // Never go below what this method has actually used before
+        if (learnedGasLimit && learnedGasLimit > gasLimit) {
+          gasLimit = learnedGasLimit
+          gasLimitSource = 'learned'
+        }
       } catch (estimationError: any) {
         console.warn(`⚠️ Gas estimation failed, trying fallback methods:`, estimationError.message)
         
         // Try with staticCall first to check if the transaction would succeed
         try {
-          await contract[methodName].staticCall(...args)
-          console.log('✅ Static call succeeded, using fallback gas limit')
-          gasLimit = BigInt(300000) // Higher fallback for complex operations
+          await client.staticCall(methodName, args)
+          gasLimit = learnedGasLimit ?? FALLBACK_GAS_LIMIT
+          gasLimitSource = learnedGasLimit ? 'learned' : 'fallback'
+          console.log(`✅ Static call succeeded, using ${gasLimitSource} gas limit`)
         } catch (staticError: any) {
           console.error(`❌ Static call also failed:`, staticError.message)
-          throw new Error(`Contract call would fail: ${staticError.message}`)
+          throw parseContractError(staticError, client.contract.interface)
         }
       }
 
-      // Add 50% buffer to gas limit for safety
-      const bufferedGasLimit = (gasLimit * BigInt(150)) / BigInt(100)
-      
-      // Calculate estimated cost
       let gasPrice = feeData.gasPrice || BigInt(0)
       let maxFeePerGas = feeData.maxFeePerGas
       let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas
 
+      if (feeSuggestions) {
+        // Fee history percentiles reflect what recent blocks actually included
+        const suggestion = feeSuggestions[feeStrategy]
+        maxFeePerGas = suggestion.maxFeePerGas
+        maxPriorityFeePerGas = suggestion.maxPriorityFeePerGas
+        gasPrice = suggestion.baseFeePerGas + suggestion.maxPriorityFeePerGas
+      }
+
       // Fallback gas prices if not available
       if (!gasPrice && !maxFeePerGas) {
         gasPrice = BigInt(ethers.parseUnits('20', 'gwei'))
@@ -146,40 +421,123 @@ export class GasEstimator {
         maxFeePerGas = gasPrice
       }
 
-      const estimatedCostWei = bufferedGasLimit * (maxFeePerGas || gasPrice)
+      const estimatedCostWei = gasLimit * (maxFeePerGas || gasPrice)
       const estimatedCostEth = ethers.formatEther(estimatedCostWei)
 
-      console.log(`💸 Estimated cost: ${estimatedCostEth} ETH`)
+      const estimatedCostUSD = await convertEthToFiat(estimatedCostEth, 'usd')
+
+      console.log(`💸 Estimated cost: ${estimatedCostEth} ETH${estimatedCostUSD ? ` (~$${estimatedCostUSD})` : ''}`)
 
       return {
-        gasLimit: bufferedGasLimit,
+        gasLimit,
+        gasLimitSource,
         gasPrice: gasPrice,
         maxFeePerGas: maxFeePerGas || undefined,
         maxPriorityFeePerGas: maxPriorityFeePerGas || undefined,
-        estimatedCost: parseFloat(estimatedCostEth).toFixed(6)
+        feeStrategy,
+        feeSuggestions: feeSuggestions || undefined,
+        estimatedCost: parseFloat(estimatedCostEth).toFixed(6),
+        estimatedCostUSD: estimatedCostUSD ?? undefined
       }
 
     } catch (error: any) {
       console.error(`❌ Gas estimation failed for ${methodName}:`, error)
+
+      // A decoded revert means the transaction would fail on chain too
+      if (error instanceof CreditAnalyzerError && !error.retryable) {
+        throw error
+      }
       
       // Return safe default values if estimation fails
       const defaultGasPrice = BigInt(ethers.parseUnits('25', 'gwei'))
+      const defaultCost = '0.01' // Conservative default
+      const defaultCostUSD = await convertEthToFiat(defaultCost, 'usd')
       return {
-        gasLimit: BigInt(400000), // Higher default gas limit
+        gasLimit: learnedGasLimit ?? DEFAULT_GAS_LIMIT,
+        gasLimitSource: learnedGasLimit ? 'learned' : 'fallback',
         gasPrice: defaultGasPrice,
         maxFeePerGas: defaultGasPrice,
         maxPriorityFeePerGas: BigInt(ethers.parseUnits('2', 'gwei')),
-        estimatedCost: '0.01' // Conservative default
+        feeStrategy,
+        estimatedCost: defaultCost,
+        estimatedCostUSD: defaultCostUSD ?? undefined
       }
     }
   }
 }
 
+// Replacements pay 125% of the original fees. Geth only requires a 10% raise,
+// but the margin also covers base fee growth since the original was sent.
+const REPLACEMENT_FEE_BUMP_PERCENT = BigInt(125)
+
+// Outcomes that spend the nonce, so a retry would send a second transaction
+const FINAL_TRACKING_ERRORS = ['TRANSACTION_REPLACED', 'TRANSACTION_CANCELLED', 'TRANSACTION_TIMEOUT']
+
+// Fields needed to resend a transaction with the same nonce
+interface ReplaceableRequest {
+  from: string
+  to: string
+  data: string
+  value: bigint
+  nonce: number
+  gasLimit: bigint
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  gasPrice?: bigint
+}
+
+interface ActiveTransaction {
+  hash: string
+  // Most recently sent request for the nonce, the original or a replacement
+  request: ReplaceableRequest
+  replacements: TransactionReplacement[]
+  reportStatus: (status: TransactionStatus) => void
+}
+
+const bumpFee = (fee: bigint): bigint => (fee * REPLACEMENT_FEE_BUMP_PERCENT) / BigInt(100)
+
+const maxBigInt = (...values: bigint[]): bigint =>
+  values.reduce((max, value) => (value > max ? value : max), BigInt(0))
+
+/**
+ * Switch an estimate to another fee strategy's suggested fees
+ */
+const withFeeStrategy = (estimate: GasEstimate, strategy: FeeStrategy): GasEstimate => {
+  const suggestion = estimate.feeSuggestions?.[strategy]
+  if (!suggestion) return estimate
+
+  const estimatedCostEth = ethers.formatEther(estimate.gasLimit * suggestion.maxFeePerGas)
+  // Fiat cost scales with the ETH cost, at the price fetched with the estimate
+  const previousCost = parseFloat(estimate.estimatedCost)
+  const estimatedCostUSD = estimate.estimatedCostUSD && previousCost > 0
+    ? ((parseFloat(estimate.estimatedCostUSD) * parseFloat(estimatedCostEth)) / previousCost).toFixed(2)
+    : undefined
+
+  return {
+    ...estimate,
+    feeStrategy: strategy,
+    maxFeePerGas: suggestion.maxFeePerGas,
+    maxPriorityFeePerGas: suggestion.maxPriorityFeePerGas,
+    gasPrice: suggestion.baseFeePerGas + suggestion.maxPriorityFeePerGas,
+    estimatedCost: parseFloat(estimatedCostEth).toFixed(6),
+    estimatedCostUSD
+  }
+}
+
+/**
+ * True when the operation went through, either directly or via a speed-up
+ */
+export const isTransactionSuccessful = (status: TransactionStatus): boolean => {
+  return status.status === 'confirmed' ||
+    (status.status === 'replaced' && status.replacement?.kind === 'speedup')
+}
+
 // Transaction executor with proper error handling
 export class TransactionExecutor {
   private provider: ethers.BrowserProvider
   private gasEstimator: GasEstimator
   private transactionTracker: TransactionTracker
+  private activeTransaction: ActiveTransaction | null = null
 
   constructor(provider: ethers.BrowserProvider) {
     this.provider = provider
@@ -187,20 +545,34 @@ export class TransactionExecutor {
     this.transactionTracker = new TransactionTracker(provider)
   }
 
-  async executeTransaction(
-    contract: ethers.Contract,
-    methodName: string,
-    args: any[] = [],
+  async executeTransaction<M extends CreditAnalyzerMethodName>(
+    client: CreditAnalyzerClient,
+    methodName: M,
+    args: CreditAnalyzerMethodArgs<M>,
     onStatusUpdate: (status: TransactionStatus) => void,
     options: {
       confirmations?: number
       timeout?: number
       retries?: number
+      feeStrategy?: FeeStrategy
+      // Resolves to the chosen fee strategy, or null when the user declines before sending
+      onReview?: (review: TransactionReview) => Promise<FeeStrategy | null>
     } = {}
   ): Promise<TransactionReceipt> {
-    const { confirmations = 1, timeout = 300000, retries = 1 } = options // 5 minute timeout, 1 retry
+    const { timeout = TRANSACTION_TIMEOUT, retries = 1, onReview } = options
+    // Without an explicit depth, wait as long as the network's config asks for
+    const confirmations = options.confirmations ??
+      getRequiredConfirmations(`0x${(await this.provider.getNetwork()).chainId.toString(16)}`)
+    let feeStrategy = options.feeStrategy ?? 'standard'
+    let reviewed = false
+
+    // Tag every update with the method so the status panel can label it
+    const reportStatus = (status: TransactionStatus) => onStatusUpdate({ ...status, method: methodName })
 
     let lastError: any = null
+    // Set once the wallet has broadcast the transaction. Later attempts only
+    // track that hash again: resending would use a new nonce and pay twice.
+    let broadcast: { active: ActiveTransaction; chainId: string } | null = null
     
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
@@ -210,57 +582,136 @@ export class TransactionExecutor {
           await new Promise(resolve => setTimeout(resolve, 1000))
         }
 
-        console.log(`🚀 Executing transaction: ${methodName} (attempt ${attempt + 1})`)
-        console.log('📝 Arguments:', args)
+        if (broadcast) {
+          console.log(`🔎 ${methodName} was already sent, tracking ${broadcast.active.hash} again`)
+        } else {
+          console.log(`🚀 Executing transaction: ${methodName} (attempt ${attempt + 1})`)
+          console.log('📝 Arguments:', args)
 
-        // Estimate gas first
-        const gasEstimate = await this.gasEstimator.estimateContractCall(contract, methodName, args)
-        console.log('⛽ Gas estimate:', gasEstimate)
+          // Estimate gas first
+          let gasEstimate = await this.gasEstimator.estimateContractCall(client, methodName, args, feeStrategy)
+          console.log('⛽ Gas estimate:', gasEstimate)
 
-        onStatusUpdate({
-          status: 'pending',
-          confirmations: 0
-        })
+          // Let the user check the call and its cost once, before the first wallet prompt
+          if (onReview && !reviewed) {
+            const review = await this.buildReview(methodName, args, gasEstimate)
+            const chosenStrategy = await onReview(review)
+            if (!chosenStrategy) {
+              throw new CreditAnalyzerError('USER_CANCELLED', null)
+            }
+
+            // Retries keep the strategy picked here
+            feeStrategy = chosenStrategy
+            gasEstimate = withFeeStrategy(gasEstimate, chosenStrategy)
+            reviewed = true
+          }
+
+          reportStatus({
+            status: 'pending',
+            confirmations: 0
+          })
 
-        // Prepare transaction options with safe fallbacks
-        const txOptions: any = {
-          gasLimit: gasEstimate.gasLimit
+          // Prepare transaction options with safe fallbacks
+          const txOptions: any = {
+            gasLimit: gasEstimate.gasLimit
+          }
+
+          // Use EIP-1559 if available, otherwise use legacy
+          if (gasEstimate.maxFeePerGas && gasEstimate.maxPriorityFeePerGas) {
+            txOptions.maxFeePerGas = gasEstimate.maxFeePerGas
+            txOptions.maxPriorityFeePerGas = gasEstimate.maxPriorityFeePerGas
+          } else if (gasEstimate.gasPrice) {
+            txOptions.gasPrice = gasEstimate.gasPrice
+          }
+
+          // Execute the transaction
+          console.log('📤 Sending transaction to blockchain...')
+          console.log('⚙️ Transaction options:', {
+            gasLimit: txOptions.gasLimit?.toString(),
+            gasPrice: txOptions.gasPrice?.toString(),
+            maxFeePerGas: txOptions.maxFeePerGas?.toString(),
+            maxPriorityFeePerGas: txOptions.maxPriorityFeePerGas?.toString()
+          })
+        
+          const tx = await client.send(methodName, args, txOptions)
+
+          console.log('✅ Transaction sent:', tx.hash)
+
+          const chainId = `0x${tx.chainId.toString(16)}`
+
+          // Remember the hash so tracking can resume if the page is reloaded
+          savePendingTransaction({
+            hash: tx.hash,
+            method: methodName,
+            account: tx.from,
+            chainId,
+            submittedAt: Date.now()
+          })
+          console.log('📋 Transaction details:', {
+            to: tx.to,
+            value: tx.value?.toString() || '0',
+            gasLimit: tx.gasLimit?.toString() || 'unknown',
+            gasPrice: tx.gasPrice?.toString(),
+            maxFeePerGas: tx.maxFeePerGas?.toString(),
+            nonce: tx.nonce
+          })
+
+          // Keep what is needed to speed up or cancel while the transaction is pending
+          broadcast = {
+            chainId,
+            active: {
+              hash: tx.hash,
+              request: {
+                from: tx.from,
+                to: tx.to || client.address,
+                data: tx.data,
+                value: tx.value,
+                nonce: tx.nonce,
+                gasLimit: tx.gasLimit,
+                maxFeePerGas: tx.maxFeePerGas ?? undefined,
+                maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? undefined,
+                gasPrice: tx.maxFeePerGas == null ? tx.gasPrice : undefined
+              },
+              replacements: [],
+              reportStatus
+            }
+          }
         }
 
-        // Use EIP-1559 if available, otherwise use legacy
-        if (gasEstimate.maxFeePerGas && gasEstimate.maxPriorityFeePerGas) {
-          txOptions.maxFeePerGas = gasEstimate.maxFeePerGas
-          txOptions.maxPriorityFeePerGas = gasEstimate.maxPriorityFeePerGas
-        } else if (gasEstimate.gasPrice) {
-          txOptions.gasPrice = gasEstimate.gasPrice
+        const { active, chainId } = broadcast
+        this.activeTransaction = active
+
+        // Track the transaction and any replacement sent for it
+        let receipt: TransactionReceipt
+        try {
+          receipt = await this.transactionTracker.trackTransaction(
+            active.hash,
+            reportStatus,
+            { confirmations, timeout }
+          )
+        } catch (error: any) {
+          if (error.code === 'TRANSACTION_REPLACED') removePendingTransaction(active.hash)
+          throw error
+        } finally {
+          this.activeTransaction = null
         }
+        removePendingTransaction(active.hash)
 
-        // Execute the transaction
-        console.log('📤 Sending transaction to blockchain...')
-        console.log('⚙️ Transaction options:', {
-          gasLimit: txOptions.gasLimit?.toString(),
-          gasPrice: txOptions.gasPrice?.toString(),
-          maxFeePerGas: txOptions.maxFeePerGas?.toString(),
-          maxPriorityFeePerGas: txOptions.maxPriorityFeePerGas?.toString()
-        })
-        
-        const tx: ContractTransaction = await contract[methodName](...args, txOptions)
-
-        console.log('✅ Transaction sent:', (tx as any).hash)
-        console.log('📋 Transaction details:', {
-          to: tx.to,
-          value: tx.value?.toString() || '0',
-          gasLimit: tx.gasLimit?.toString() || 'unknown',
-          gasPrice: tx.gasPrice?.toString(),
-          maxFeePerGas: tx.maxFeePerGas?.toString(),
-          nonce: tx.nonce
-        })
+        if (receipt.status === 0) {
+          // Replay the call to learn why it reverted
+          const reason = await getReceiptRevertReason(this.provider, receipt, client.contract.interface)
+          throw createRevertError(reason, receipt)
+        }
+
+        if (active.replacements.some(r => r.kind === 'cancel' && r.hash === receipt.hash)) {
+          console.log('🛑 Transaction was cancelled:', active.hash)
+          const cancelled: any = new LocalizedError({ key: 'txStatus.cancelled' })
+          cancelled.code = 'TRANSACTION_CANCELLED'
+          throw cancelled
+        }
 
-        // Track the transaction
-        const receipt = await this.transactionTracker.trackTransaction(
-          (tx as any).hash,
-          onStatusUpdate
-        )
+        // Teach the gas limit model what this method really costs
+        recordGasUsed(chainId, methodName, receipt.gasUsed)
 
         console.log('🎉 Transaction completed successfully!')
         return receipt
@@ -270,10 +721,12 @@ export class TransactionExecutor {
         console.error(`❌ Transaction execution failed for ${methodName} (attempt ${attempt + 1}):`, error)
         
         // Don't retry for certain errors
-        if (error.code === 4001 || // User rejected
-            error.message?.includes('user rejected') ||
-            error.message?.includes('cancelled by user')) {
-          break // Don't retry user cancellations
+        if (FINAL_TRACKING_ERRORS.includes(error.code)) {
+          break // The nonce is already used
+        }
+
+        if (!parseContractError(error, client.contract.interface).retryable) {
+          break // Reverts and user rejections fail the same way every time
         }
         
         if (attempt === retries) {
@@ -282,33 +735,257 @@ export class TransactionExecutor {
       }
     }
 
-    // Parse error message for user-friendly display
-    let userMessage = lastError.message
-
-    if (lastError.code === 4001) {
-      userMessage = 'Transaction cancelled by user'
-    } else if (lastError.code === -32603) {
-      userMessage = 'Transaction failed - insufficient funds or contract error'
-    } else if (lastError.message?.includes('insufficient funds')) {
-      userMessage = 'Insufficient ETH balance for gas fees'
-    } else if (lastError.message?.includes('user rejected')) {
-      userMessage = 'Transaction rejected by user'
-    } else if (lastError.message?.includes('execution reverted')) {
-      userMessage = 'Contract execution failed - check your data'
-    } else if (lastError.message?.includes('missing revert data')) {
-      userMessage = 'Contract call failed - please check your input data and try again'
-    } else if (lastError.message?.includes('CALL_EXCEPTION')) {
-      userMessage = 'Contract call exception - please verify your data is correct'
+    // The tracker already reported these as replaced, cancelled or timed out
+    if (FINAL_TRACKING_ERRORS.includes(lastError.code)) {
+      throw lastError
     }
 
-    onStatusUpdate({
+    // Decode the revert reason for user-friendly display
+    const contractError = parseContractError(lastError, client.contract.interface)
+
+    // A sent transaction stays saved as pending, so a reload resumes tracking it
+    reportStatus({
+      hash: broadcast?.active.hash,
+      status: 'failed',
+      confirmations: 0,
+      error: getErrorDescriptor(contractError.code, contractError.reason)
+    })
+
+    throw contractError
+  }
+
+  private async buildReview<M extends CreditAnalyzerMethodName>(
+    methodName: M,
+    args: CreditAnalyzerMethodArgs<M>,
+    gasEstimate: GasEstimate
+  ): Promise<TransactionReview> {
+    const signer = await this.provider.getSigner()
+    const balanceWei = await this.provider.getBalance(await signer.getAddress())
+
+    // Without fee history there is only the node's own suggestion to offer
+    const strategies = gasEstimate.feeSuggestions ? FEE_STRATEGIES : [gasEstimate.feeStrategy]
+
+    const feeOptions = await Promise.all(strategies.map(async (strategy): Promise<FeeOption> => {
+      const estimate = withFeeStrategy(gasEstimate, strategy)
+      const maxFeePerGas = estimate.maxFeePerGas || estimate.gasPrice
+      const maxCostWei = estimate.gasLimit * maxFeePerGas
+      // Base fee plus tip approximates what will actually be paid
+      const expectedCostWei = estimate.gasLimit * (estimate.gasPrice || maxFeePerGas)
+      const expectedCostFiat = await convertEthToFiat(ethers.formatEther(expectedCostWei), REVIEW_CURRENCY)
+
+      return {
+        strategy,
+        maxFeePerGas,
+        maxPriorityFeePerGas: estimate.maxPriorityFeePerGas,
+        expectedCost: ethers.formatEther(expectedCostWei),
+        maxCost: ethers.formatEther(maxCostWei),
+        expectedCostFiat,
+        insufficientBalance: balanceWei < maxCostWei
+      }
+    }))
+
+    return {
+      method: methodName,
+      arguments: describeArguments(methodName, args),
+      gasLimit: gasEstimate.gasLimit,
+      gasLimitSource: gasEstimate.gasLimitSource,
+      feeOptions,
+      selectedStrategy: gasEstimate.feeStrategy,
+      fiatCurrency: REVIEW_CURRENCY,
+      balance: ethers.formatEther(balanceWei)
+    }
+  }
+
+  /**
+   * Hash of the transaction that can currently be sped up or cancelled
+   */
+  getReplaceableTransaction(): string | null {
+    return this.activeTransaction?.hash ?? null
+  }
+
+  /**
+   * Resend the pending transaction with the same nonce and higher fees
+   */
+  async speedUpTransaction(): Promise<string> {
+    return this.sendReplacement('speedup')
+  }
+
+  /**
+   * Replace the pending transaction with a zero-value transfer to self
+   */
+  async cancelTransaction(): Promise<string> {
+    return this.sendReplacement('cancel')
+  }
+
+  private async sendReplacement(kind: ReplacementKind): Promise<string> {
+    const active = this.activeTransaction
+    if (!active) {
+      throw new Error('There is no pending transaction to replace')
+    }
+
+    const { request } = active
+    const feeData = await this.provider.getFeeData()
+
+    // Bump the fees of the last request, but never go below the current network price
+    let fees: Pick<ReplaceableRequest, 'maxFeePerGas' | 'maxPriorityFeePerGas' | 'gasPrice'>
+    if (request.maxFeePerGas != null && request.maxPriorityFeePerGas != null) {
+      const maxPriorityFeePerGas = maxBigInt(
+        bumpFee(request.maxPriorityFeePerGas),
+        feeData.maxPriorityFeePerGas ?? BigInt(0)
+      )
+      const maxFeePerGas = maxBigInt(
+        bumpFee(request.maxFeePerGas),
+        feeData.maxFeePerGas ?? BigInt(0),
+        maxPriorityFeePerGas
+      )
+      fees = { maxFeePerGas, maxPriorityFeePerGas }
+    } else {
+      fees = { gasPrice: maxBigInt(bumpFee(request.gasPrice ?? BigInt(0)), feeData.gasPrice ?? BigInt(0)) }
+    }
+
+    const replacementRequest: ReplaceableRequest = kind === 'cancel'
+      ? {
+          from: request.from,
+          to: request.from,
+          data: '0x',
+          value: BigInt(0),
+          nonce: request.nonce,
+          gasLimit: BigInt(21000),
+          ...fees
+        }
+      : { ...request, ...fees }
+
+    console.log(`${kind === 'cancel' ? '🛑' : '⚡'} Sending ${kind} replacement for ${active.hash}:`, {
+      nonce: replacementRequest.nonce,
+      maxFeePerGas: replacementRequest.maxFeePerGas?.toString(),
+      maxPriorityFeePerGas: replacementRequest.maxPriorityFeePerGas?.toString(),
+      gasPrice: replacementRequest.gasPrice?.toString()
+    })
+
+    const signer = await this.provider.getSigner(request.from)
+    const tx = await signer.sendTransaction(replacementRequest)
+
+    // The transaction may have been mined while the wallet prompt was open
+    if (this.activeTransaction !== active) {
+      console.warn('⚠️ Original transaction finished before the replacement was sent:', tx.hash)
+      return tx.hash
+    }
+
+    const replacement: TransactionReplacement = { hash: tx.hash, kind }
+    active.request = replacementRequest
+    active.replacements.push(replacement)
+    this.transactionTracker.addReplacement(active.hash, replacement)
+    addPendingReplacement(active.hash, replacement)
+
+    console.log('✅ Replacement sent:', tx.hash)
+    active.reportStatus({
+      hash: active.hash,
+      status: 'pending',
+      confirmations: 0,
+      replacement
+    })
+
+    return tx.hash
+  }
+}
+
+// Read-only JSON-RPC providers, one per chain
+const readOnlyProviders = new Map<string, ethers.JsonRpcProvider>()
+
+/**
+ * Get a JSON-RPC provider for reading contract state without a wallet
+ */
+export const getReadOnlyProvider = (network: NetworkConfig): ethers.JsonRpcProvider => {
+  let provider = readOnlyProviders.get(network.chainId)
+
+  if (!provider) {
+    console.log(`📖 Creating read-only provider for ${network.chainName}`)
+    // The network is known up front, so skip chain id detection round-trips
+    provider = new ethers.JsonRpcProvider(network.publicRpcUrl, parseInt(network.chainId, 16), {
+      staticNetwork: true
+    })
+    readOnlyProviders.set(network.chainId, provider)
+  }
+
+  return provider
+}
+
+/**
+ * How a transaction sent before a page reload ended up:
+ * - 'confirmed': the call (or a speed-up of it) was mined and succeeded
+ * - 'failed': it reverted, or the network dropped it without mining it
+ * - 'cancelled': a cancellation sent from the app was mined instead
+ * - 'replaced': another transaction from the wallet used its nonce
+ * - 'timeout': it was still unconfirmed when tracking gave up, and stays saved
+ */
+export type ResumeOutcome =
+  | { status: 'confirmed'; receipt: TransactionReceipt }
+  | { status: 'failed'; receipt: TransactionReceipt | null }
+  | { status: 'cancelled' }
+  | { status: 'replaced' }
+  | { status: 'timeout' }
+
+/**
+ * Resume tracking a transaction that was sent before a page reload
+ */
+export const resumePendingTransaction = async (
+  provider: ethers.BrowserProvider,
+  pending: PendingTransaction,
+  onStatusUpdate: (status: TransactionStatus) => void
+): Promise<ResumeOutcome> => {
+  console.log(`♻️ Resuming ${pending.method} transaction:`, pending.hash)
+
+  const withContext = (status: TransactionStatus): TransactionStatus => ({
+    ...status,
+    method: pending.method,
+    resumed: true
+  })
+
+  // A transaction the node no longer knows about was dropped from the mempool
+  const [transaction, receipt] = await Promise.all([
+    provider.getTransaction(pending.hash),
+    provider.getTransactionReceipt(pending.hash)
+  ])
+
+  const replacements = pending.replacements || []
+
+  if (!transaction && !receipt && replacements.length === 0) {
+    console.warn('⚠️ Pending transaction was dropped:', pending.hash)
+    removePendingTransaction(pending.hash)
+    onStatusUpdate(withContext({
+      hash: pending.hash,
       status: 'failed',
       confirmations: 0,
-      error: userMessage
+      error: { key: 'txStatus.dropped' }
+    }))
+    return { status: 'failed', receipt: null }
+  }
+
+  const tracker = new TransactionTracker(provider)
+  replacements.forEach(replacement => tracker.addReplacement(pending.hash, replacement))
+  let finalReceipt: TransactionReceipt
+  try {
+    finalReceipt = await tracker.trackTransaction(pending.hash, status => onStatusUpdate(withContext(status)), {
+      confirmations: getRequiredConfirmations(pending.chainId),
+      timeout: TRANSACTION_TIMEOUT
     })
+  } catch (error: any) {
+    // Still pending: keep it saved so the next reload picks it up again
+    if (error.code === 'TRANSACTION_TIMEOUT') return { status: 'timeout' }
+    if (error.code !== 'TRANSACTION_REPLACED') throw error
+    removePendingTransaction(pending.hash)
+    return { status: 'replaced' }
+  }
+  removePendingTransaction(pending.hash)
 
-    throw new Error(userMessage)
+  // A mined cancellation means the original call never happened
+  const wasCancelled = replacements.some(r => r.kind === 'cancel' && r.hash === finalReceipt.hash)
+  if (wasCancelled) {
+    return { status: 'cancelled' }
   }
+  return finalReceipt.status === 1
+    ? { status: 'confirmed', receipt: finalReceipt }
+    : { status: 'failed', receipt: finalReceipt }
 }
 
 // Utility functions for transaction management
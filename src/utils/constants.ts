@@ -1,16 +1,24 @@
-// Contract configuration
-export const CONTRACT_ADDRESS = "0x55F4A793FD9B9A39a1b17cD23310D0761EE33CCA"
+import type { MessageDescriptor, MessageKey } from './i18n'
 
+// Contract ABI (addresses are per network, see networks.ts)
 export const CONTRACT_ABI = [
-  // Core functions with correct FHE types
-  "function submitCreditData(uint256, uint256, uint256, uint256, uint256) external",
+  // Core functions: five encrypted input handles covered by one input proof
+  "function submitCreditData(bytes32, bytes32, bytes32, bytes32, bytes32, bytes) external",
+  "function updateCreditData(bytes32, bytes32, bytes32, bytes32, bytes32, bytes) external",
   "function evaluateCreditScore(address) external", 
   "function requestLoanApproval() external",
   
+  // Lender access: the owner registers lenders, applicants opt in to share their results
+  "function setLender(address, bool) external",
+  "function grantLenderAccess(address) external",
+  "function isLender(address) external view returns (bool)",
+  "function hasLenderAccess(address, address) external view returns (bool)",
+  
   // View functions for checking status
   "function hasSubmittedCreditData(address) external view returns (bool)",
   "function isCreditEvaluated(address) external view returns (bool)",
   "function getEvaluationStats() external view returns (uint256)",
+  "function owner() external view returns (address)",
   
   // Encrypted result functions  
   "function getEncryptedCreditScore(address) external view returns (uint256)",
@@ -19,25 +27,17 @@ export const CONTRACT_ABI = [
   // Events
   "event CreditDataSubmitted(address indexed user, uint256 timestamp)",
   "event CreditEvaluated(address indexed user, uint256 timestamp)",
-  "event LoanApprovalRequested(address indexed user, uint256 timestamp)"
-]
+  "event LoanApprovalRequested(address indexed user, uint256 timestamp)",
+  "event CreditDataUpdated(address indexed user, uint256 timestamp)"
+] as const
 
-// Network configuration
-export const SEPOLIA_CHAIN_ID = '0xaa36a7'
-export const SEPOLIA_NETWORK = {
-  chainId: SEPOLIA_CHAIN_ID,
-  chainName: 'Sepolia Test Network',
-  rpcUrls: [
-    'https://sepolia.infura.io/v3/',
-    'https://rpc.sepolia.org',
-    'https://ethereum-sepolia.blockpi.network/v1/rpc/public'
-  ],
-  nativeCurrency: {
-    name: 'ETH',
-    symbol: 'ETH',
-    decimals: 18
-  },
-  blockExplorerUrls: ['https://sepolia.etherscan.io/']
+// Credit score bands as computed by the contract (1-5)
+export const CREDIT_SCORE_BANDS: { [score: number]: { label: MessageKey; range: string } } = {
+  5: { label: 'bands.excellent', range: '750+' },
+  4: { label: 'bands.good', range: '650-749' },
+  3: { label: 'bands.fair', range: '550-649' },
+  2: { label: 'bands.poor', range: '450-549' },
+  1: { label: 'bands.bad', range: '<450' }
 }
 
 // Faucet URLs for getting test ETH
@@ -48,37 +48,44 @@ export const SEPOLIA_FAUCETS = [
 ]
 
 // Preset values for credit data
-export const INCOME_PRESETS = [
+export interface Preset {
+  label: string
+  value: number
+  message?: MessageDescriptor
+}
+
+export const INCOME_PRESETS: Preset[] = [
   { label: '$3,000', value: 3000 },
   { label: '$5,000', value: 5000 },
   { label: '$8,000', value: 8000 },
   { label: '$12,000', value: 12000 }
 ]
 
-export const DEBT_PRESETS = [
+export const DEBT_PRESETS: Preset[] = [
   { label: '$0', value: 0 },
   { label: '$5,000', value: 5000 },
   { label: '$15,000', value: 15000 },
   { label: '$30,000', value: 30000 }
 ]
 
-export const AGE_PRESETS = [
+export const AGE_PRESETS: Preset[] = [
   { label: '25', value: 25 },
   { label: '30', value: 30 },
   { label: '40', value: 40 },
   { label: '50', value: 50 }
 ]
 
-export const CREDIT_HISTORY_PRESETS = [
-  { label: '2 years', value: 2 },
-  { label: '5 years', value: 5 },
-  { label: '10 years', value: 10 },
-  { label: '15+ years', value: 15 }
+// Labels with a message are translated by the form
+export const CREDIT_HISTORY_PRESETS: Preset[] = [
+  { label: '2 years', value: 2, message: { key: 'presets.years', params: { years: 2 } } },
+  { label: '5 years', value: 5, message: { key: 'presets.years', params: { years: 5 } } },
+  { label: '10 years', value: 10, message: { key: 'presets.years', params: { years: 10 } } },
+  { label: '15+ years', value: 15, message: { key: 'presets.yearsOrMore', params: { years: 15 } } }
 ]
 
-export const PAYMENT_HISTORY_PRESETS = [
-  { label: '5 - Fair', value: 5 },
-  { label: '7 - Good', value: 7 },
-  { label: '9 - Excellent', value: 9 },
-  { label: '10 - Perfect', value: 10 }
+export const PAYMENT_HISTORY_PRESETS: Preset[] = [
+  { label: '5 - Fair', value: 5, message: { key: 'presets.paymentFair', params: { score: 5 } } },
+  { label: '7 - Good', value: 7, message: { key: 'presets.paymentGood', params: { score: 7 } } },
+  { label: '9 - Excellent', value: 9, message: { key: 'presets.paymentExcellent', params: { score: 9 } } },
+  { label: '10 - Perfect', value: 10, message: { key: 'presets.paymentPerfect', params: { score: 10 } } }
 ]
\ No newline at end of file
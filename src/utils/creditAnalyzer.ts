@@ -0,0 +1,445 @@
+import { ethers } from 'ethers'
+import type { ContractEventPayload, ContractRunner, ContractTransactionResponse, EventLog, Log } from 'ethers'
+import { CONTRACT_ABI } from './constants'
+import type { AbiEvents, AbiMethods, AbiViews, Equals } from './abiTypes'
+import { CreditAnalyzerError } from './errors'
+import type { MessageDescriptor, MessageKey } from './i18n'
+
+/**
+ * Typed client for the CreditAnalyzer contract.
+ *
+ * The method, view and event maps below mirror CONTRACT_ABI one-to-one and
+ * are checked against it at compile time, so the two cannot drift apart.
+ * Calling through the client is what turns a misspelled method or a wrong
+ * argument list into a compile error instead of a runtime revert.
+ */
+
+// Encrypted handles for the five credit fields followed by their shared input proof
+type EncryptedCreditDataArgs = [
+  income: string,
+  debt: string,
+  age: string,
+  creditHistory: string,
+  paymentHistory: string,
+  inputProof: string
+]
+
+// State-changing methods
+export interface CreditAnalyzerMethods {
+  submitCreditData: EncryptedCreditDataArgs
+  updateCreditData: EncryptedCreditDataArgs
+  evaluateCreditScore: [user: string]
+  requestLoanApproval: []
+  setLender: [lender: string, enabled: boolean]
+  grantLenderAccess: [lender: string]
+}
+
+// View methods with their decoded return types
+export interface CreditAnalyzerViews {
+  hasSubmittedCreditData: { args: [user: string]; returns: boolean }
+  isCreditEvaluated: { args: [user: string]; returns: boolean }
+  getEvaluationStats: { args: []; returns: bigint }
+  owner: { args: []; returns: string }
+  isLender: { args: [lender: string]; returns: boolean }
+  hasLenderAccess: { args: [user: string, lender: string]; returns: boolean }
+  getEncryptedCreditScore: { args: [user: string]; returns: bigint }
+  getEncryptedLoanApproval: { args: [user: string]; returns: bigint }
+}
+
+// Events with their decoded arguments
+export interface CreditAnalyzerEvents {
+  CreditDataSubmitted: { user: string; timestamp: bigint }
+  CreditEvaluated: { user: string; timestamp: bigint }
+  LoanApprovalRequested: { user: string; timestamp: bigint }
+  CreditDataUpdated: { user: string; timestamp: bigint }
+}
+
+// Fails to compile when a map above disagrees with CONTRACT_ABI on a name,
+// a parameter or return type, or the number of parameters
+type AssertTrue<T extends true> = T
+export type ClientMatchesAbi = [
+  AssertTrue<Equals<CreditAnalyzerMethods, AbiMethods<typeof CONTRACT_ABI>>>,
+  AssertTrue<Equals<CreditAnalyzerViews, AbiViews<typeof CONTRACT_ABI>>>,
+  AssertTrue<Equals<CreditAnalyzerEvents, AbiEvents<typeof CONTRACT_ABI>>>
+]
+
+export type CreditAnalyzerMethodName = keyof CreditAnalyzerMethods
+export type CreditAnalyzerMethodArgs<M extends CreditAnalyzerMethodName> = CreditAnalyzerMethods[M]
+export type CreditAnalyzerViewName = keyof CreditAnalyzerViews
+export type CreditAnalyzerEventName = keyof CreditAnalyzerEvents
+
+export interface ArgumentSummary {
+  label: MessageKey
+  // Shown as is, or translated when it needs words
+  value: string | MessageDescriptor
+}
+
+interface ArgumentDescriptor {
+  label: MessageKey
+  kind: 'handle' | 'proof' | 'address' | 'flag'
+}
+
+const ENCRYPTED_CREDIT_DATA_DESCRIPTORS: ArgumentDescriptor[] = [
+  { label: 'argument.income', kind: 'handle' },
+  { label: 'argument.debt', kind: 'handle' },
+  { label: 'argument.age', kind: 'handle' },
+  { label: 'argument.creditHistory', kind: 'handle' },
+  { label: 'argument.paymentHistory', kind: 'handle' },
+  { label: 'argument.inputProof', kind: 'proof' }
+]
+
+// How each argument is shown before sending. Ciphertexts are only ever shown by handle.
+const ARGUMENT_DESCRIPTORS: { [M in CreditAnalyzerMethodName]: ArgumentDescriptor[] } = {
+  submitCreditData: ENCRYPTED_CREDIT_DATA_DESCRIPTORS,
+  updateCreditData: ENCRYPTED_CREDIT_DATA_DESCRIPTORS,
+  evaluateCreditScore: [{ label: 'argument.user', kind: 'address' }],
+  requestLoanApproval: [],
+  setLender: [{ label: 'argument.lender', kind: 'address' }, { label: 'argument.enabled', kind: 'flag' }],
+  grantLenderAccess: [{ label: 'argument.lender', kind: 'address' }]
+}
+
+const shortenHex = (value: string): string =>
+  value.length > 20 ? `${value.slice(0, 10)}...${value.slice(-8)}` : value
+
+/**
+ * Human-readable summary of a method call's arguments
+ */
+export function describeArguments<M extends CreditAnalyzerMethodName>(
+  method: M,
+  args: CreditAnalyzerMethodArgs<M>
+): ArgumentSummary[] {
+  return ARGUMENT_DESCRIPTORS[method].map((descriptor, index) => {
+    const value = String(args[index])
+
+    switch (descriptor.kind) {
+      case 'handle':
+        return { label: descriptor.label, value: `🔒 ${shortenHex(value)}` }
+      case 'proof':
+        return { label: descriptor.label, value: { key: 'argument.bytes', params: { count: ethers.dataLength(value) } } }
+      case 'flag':
+        return { label: descriptor.label, value: { key: value === 'true' ? 'common.yes' : 'common.no' } }
+      default:
+        return { label: descriptor.label, value }
+    }
+  })
+}
+
+export const CREDIT_ANALYZER_EVENTS: CreditAnalyzerEventName[] = [
+  'CreditDataSubmitted',
+  'CreditEvaluated',
+  'LoanApprovalRequested',
+  'CreditDataUpdated'
+]
+
+export interface TypedEventFilter<E extends CreditAnalyzerEventName> {
+  event: E
+  user?: string
+}
+
+export interface DecodedEvent<E extends CreditAnalyzerEventName = CreditAnalyzerEventName> {
+  event: E
+  args: CreditAnalyzerEvents[E]
+  blockNumber: number
+  transactionHash: string
+  logIndex: number
+}
+
+export interface ContractHealth {
+  isDeployed: boolean
+  // False when the deployed bytecode lacks functions of CONTRACT_ABI, i.e. an older deployment
+  matchesAbi: boolean
+  blockNumber: number
+  latencyMs: number
+}
+
+export type TransactionOverrides = Omit<ethers.TransactionRequest, 'to' | 'data' | 'from'>
+
+// Widest block range asked of eth_getLogs at once. Public RPC endpoints reject
+// or time out on larger ranges, so longer queries are split into pages.
+const LOG_QUERY_PAGE_SIZE = 5000
+
+// Blocks searched back from the head when the deployment block is unknown
+const UNKNOWN_DEPLOYMENT_LOOKBACK = 50000
+
+export class CreditAnalyzerClient {
+  readonly address: string
+  readonly contract: ethers.Contract
+  // First block to scan when querying past events, null if unknown
+  readonly deploymentBlock: number | null
+
+  constructor(address: string, runner: ContractRunner, deploymentBlock: number | null = null) {
+    this.address = address
+    this.contract = new ethers.Contract(address, CONTRACT_ABI, runner)
+    this.deploymentBlock = deploymentBlock
+  }
+
+  get runner(): ContractRunner | null {
+    return this.contract.runner
+  }
+
+  // Blocks of history that past-event queries cover when the deployment
+  // block is unknown, null when they reach back to the deployment
+  get historyLookback(): number | null {
+    return this.deploymentBlock === null ? UNKNOWN_DEPLOYMENT_LOOKBACK : null
+  }
+
+  // True when backed by a plain provider instead of a signer
+  get isReadOnly(): boolean {
+    return typeof (this.contract.runner as ethers.Signer | null)?.sendTransaction !== 'function'
+  }
+
+  /**
+   * Check that the RPC endpoint responds and the contract is deployed
+   */
+  async getHealth(): Promise<ContractHealth> {
+    const provider = this.contract.runner?.provider
+    if (!provider) {
+      throw new Error('Contract client has no provider')
+    }
+
+    const startedAt = Date.now()
+    const [code, blockNumber] = await Promise.all([
+      provider.getCode(this.address),
+      provider.getBlockNumber()
+    ])
+
+    return {
+      isDeployed: code !== '0x',
+      matchesAbi: this.codeMatchesAbi(code),
+      blockNumber,
+      latencyMs: Date.now() - startedAt
+    }
+  }
+
+  /**
+   * Throw CONTRACT_OUTDATED if the deployed contract does not implement the
+   * current ABI. Sending to an older deployment would only revert after the
+   * user has paid for encryption and gas.
+   */
+  async assertMatchesAbi(): Promise<void> {
+    const provider = this.contract.runner?.provider
+    if (!provider) {
+      throw new Error('Contract client has no provider')
+    }
+
+    const code = await provider.getCode(this.address)
+    if (code !== '0x' && !this.codeMatchesAbi(code)) {
+      throw new CreditAnalyzerError('CONTRACT_OUTDATED', null)
+    }
+  }
+
+  // View methods
+
+  async hasSubmittedCreditData(user: string): Promise<boolean> {
+    return this.call('hasSubmittedCreditData', [user])
+  }
+
+  async isCreditEvaluated(user: string): Promise<boolean> {
+    return this.call('isCreditEvaluated', [user])
+  }
+
+  async getEvaluationStats(): Promise<bigint> {
+    return this.call('getEvaluationStats', [])
+  }
+
+  async getOwner(): Promise<string> {
+    return this.call('owner', [])
+  }
+
+  async isLender(account: string): Promise<boolean> {
+    return this.call('isLender', [account])
+  }
+
+  async hasLenderAccess(user: string, lender: string): Promise<boolean> {
+    return this.call('hasLenderAccess', [user, lender])
+  }
+
+  async getEncryptedCreditScore(user: string): Promise<bigint> {
+    return this.call('getEncryptedCreditScore', [user])
+  }
+
+  async getEncryptedLoanApproval(user: string): Promise<bigint> {
+    return this.call('getEncryptedLoanApproval', [user])
+  }
+
+  async call<V extends CreditAnalyzerViewName>(
+    view: V,
+    args: CreditAnalyzerViews[V]['args']
+  ): Promise<CreditAnalyzerViews[V]['returns']> {
+    return this.contract[view](...args)
+  }
+
+  // State-changing methods
+
+  async estimateGas<M extends CreditAnalyzerMethodName>(
+    method: M,
+    args: CreditAnalyzerMethodArgs<M>
+  ): Promise<bigint> {
+    return this.contract[method].estimateGas(...args)
+  }
+
+  async staticCall<M extends CreditAnalyzerMethodName>(
+    method: M,
+    args: CreditAnalyzerMethodArgs<M>
+  ): Promise<void> {
+    await this.contract[method].staticCall(...args)
+  }
+
+  async send<M extends CreditAnalyzerMethodName>(
+    method: M,
+    args: CreditAnalyzerMethodArgs<M>,
+    overrides: TransactionOverrides = {}
+  ): Promise<ContractTransactionResponse> {
+    return this.contract[method](...args, overrides)
+  }
+
+  // Events
+
+  readonly filters = {
+    CreditDataSubmitted: (user?: string): TypedEventFilter<'CreditDataSubmitted'> =>
+      ({ event: 'CreditDataSubmitted', user }),
+    CreditEvaluated: (user?: string): TypedEventFilter<'CreditEvaluated'> =>
+      ({ event: 'CreditEvaluated', user }),
+    LoanApprovalRequested: (user?: string): TypedEventFilter<'LoanApprovalRequested'> =>
+      ({ event: 'LoanApprovalRequested', user }),
+    CreditDataUpdated: (user?: string): TypedEventFilter<'CreditDataUpdated'> =>
+      ({ event: 'CreditDataUpdated', user })
+  }
+
+  /**
+   * Query one event type between two blocks. A negative fromBlock counts back
+   * from toBlock; by default the search starts at the deployment block.
+   */
+  async queryEvents<E extends CreditAnalyzerEventName>(
+    filter: TypedEventFilter<E>,
+    fromBlock: number | null = this.deploymentBlock,
+    toBlock: number | 'latest' = 'latest'
+  ): Promise<DecodedEvent<E>[]> {
+    const range = await this.resolveBlockRange(fromBlock, toBlock)
+    return this.queryRange(filter, range)
+  }
+
+  /**
+   * Query all CreditAnalyzer events, optionally for one user, oldest first
+   */
+  async queryAllEvents(
+    user?: string,
+    fromBlock: number | null = this.deploymentBlock,
+    toBlock: number | 'latest' = 'latest'
+  ): Promise<DecodedEvent[]> {
+    const range = await this.resolveBlockRange(fromBlock, toBlock)
+    const results = await Promise.all(
+      CREDIT_ANALYZER_EVENTS.map(event => this.queryRange({ event, user }, range))
+    )
+
+    return results
+      .flat()
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+  }
+
+  /**
+   * Subscribe to all CreditAnalyzer events as they are mined.
+   * Returns an unsubscribe function that removes every listener.
+   */
+  subscribe(listener: (event: DecodedEvent) => void): () => void {
+    const handlers = CREDIT_ANALYZER_EVENTS.map(eventName => {
+      const handler = (...args: any[]) => {
+        // ethers passes the event payload as the last listener argument
+        const payload = args[args.length - 1] as ContractEventPayload
+        const decoded = this.decodeLog(payload.log)
+        if (decoded) listener(decoded)
+      }
+
+      this.contract.on(eventName, handler).catch(error => {
+        console.error(`Failed to subscribe to ${eventName}:`, error)
+      })
+
+      return { eventName, handler }
+    })
+
+    return () => {
+      handlers.forEach(({ eventName, handler }) => {
+        this.contract.off(eventName, handler).catch(error => {
+          console.warn(`Failed to unsubscribe from ${eventName}:`, error)
+        })
+      })
+    }
+  }
+
+  decodeLog(log: Log | EventLog): DecodedEvent | null {
+    try {
+      const parsed = this.contract.interface.parseLog({ topics: [...log.topics], data: log.data })
+      if (!parsed || !CREDIT_ANALYZER_EVENTS.includes(parsed.name as CreditAnalyzerEventName)) {
+        return null
+      }
+
+      return {
+        event: parsed.name as CreditAnalyzerEventName,
+        args: {
+          user: parsed.args.user as string,
+          timestamp: parsed.args.timestamp as bigint
+        },
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index
+      }
+    } catch (error) {
+      console.warn('⚠️ Failed to decode CreditAnalyzer log:', error)
+      return null
+    }
+  }
+
+  // Turn relative, unknown and 'latest' bounds into absolute block numbers
+  private async resolveBlockRange(
+    fromBlock: number | null,
+    toBlock: number | 'latest'
+  ): Promise<{ fromBlock: number; toBlock: number }> {
+    const provider = this.contract.runner?.provider
+    if (!provider) {
+      throw new Error('Contract client has no provider')
+    }
+
+    const to = toBlock === 'latest' ? await provider.getBlockNumber() : toBlock
+    if (fromBlock === null) {
+      console.warn(`⚠️ Contract deployment block is not configured, searching the last ${UNKNOWN_DEPLOYMENT_LOOKBACK} blocks only`)
+      return { fromBlock: Math.max(0, to - UNKNOWN_DEPLOYMENT_LOOKBACK), toBlock: to }
+    }
+
+    const from = fromBlock < 0 ? to + fromBlock : fromBlock
+    return { fromBlock: Math.max(0, from), toBlock: to }
+  }
+
+  // Fetch logs page by page so no single eth_getLogs call spans too many blocks
+  private async queryRange<E extends CreditAnalyzerEventName>(
+    filter: TypedEventFilter<E>,
+    range: { fromBlock: number; toBlock: number }
+  ): Promise<DecodedEvent<E>[]> {
+    const eventFilter = this.contract.filters[filter.event](filter.user ?? null)
+    const logs: (EventLog | Log)[] = []
+
+    for (let start = range.fromBlock; start <= range.toBlock; start += LOG_QUERY_PAGE_SIZE) {
+      const end = Math.min(start + LOG_QUERY_PAGE_SIZE - 1, range.toBlock)
+      logs.push(...await this.contract.queryFilter(eventFilter, start, end))
+    }
+
+    return logs
+      .map(log => this.decodeLog(log))
+      .filter((decoded): decoded is DecodedEvent<E> => decoded !== null && decoded.event === filter.event)
+  }
+
+  // Solidity's dispatcher embeds every external function selector in the runtime bytecode
+  private codeMatchesAbi(code: string): boolean {
+    const bytecode = code.toLowerCase()
+    const missing: string[] = []
+    this.contract.interface.forEachFunction(fragment => {
+      if (!bytecode.includes(fragment.selector.slice(2))) {
+        missing.push(fragment.format())
+      }
+    })
+
+    if (missing.length > 0) {
+      console.warn('⚠️ Deployed contract does not implement:', missing)
+    }
+    return missing.length === 0
+  }
+}
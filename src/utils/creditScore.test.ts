@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest'
+import { simulateCreditScore } from './creditScore'
+import type { CreditInputs } from './creditScore'
+
+// Expected values are worked through evaluateCreditScore in CreditAnalyzer.sol
+// by hand: base 3, then the age, credit history, payment history, debt and
+// income steps on an euint8 (wrapping mod 256), then the 1-5 clamp. `raw` is
+// the score before the clamp.
+
+interface ParityCase {
+  name: string
+  inputs: CreditInputs
+  raw: number
+  score: number
+  approved: boolean
+  wrapped: boolean
+}
+
+const profile = (overrides: Partial<CreditInputs>): CreditInputs => ({
+  income: 0,
+  debt: 0,
+  age: 0,
+  creditHistory: 0,
+  paymentHistory: 0,
+  ...overrides
+})
+
+const cases: ParityCase[] = [
+  {
+    // No condition holds, debt > income is 0 > 0
+    name: 'base score only',
+    inputs: profile({}),
+    raw: 3,
+    score: 3,
+    approved: true,
+    wrapped: false
+  },
+  {
+    // 3 +2 age +2 history +2 payment +2 income = 11, clamped to 5
+    name: 'every bonus, clamped to the maximum',
+    inputs: profile({ income: 12000, age: 45, creditHistory: 12, paymentHistory: 10 }),
+    raw: 11,
+    score: 5,
+    approved: true,
+    wrapped: false
+  },
+  {
+    // Bonuses need strictly greater values: age 25, history 5, payment 7 add nothing
+    name: 'bonus thresholds are exclusive',
+    inputs: profile({ income: 5000, debt: 0, age: 25, creditHistory: 5, paymentHistory: 7 }),
+    raw: 3,
+    score: 3,
+    approved: true,
+    wrapped: false
+  },
+  {
+    // 3 +1 age (26) +1 history (6) +1 payment (8); payment 9 is not perfect
+    name: 'single bonus steps',
+    inputs: profile({ income: 1000, age: 26, creditHistory: 6, paymentHistory: 9 }),
+    raw: 6,
+    score: 5,
+    approved: true,
+    wrapped: false
+  },
+  {
+    // 3 +1 age -2 debt > income = 2, just below approval
+    name: 'one below the approval threshold',
+    inputs: profile({ income: 3000, debt: 4000, age: 30 }),
+    raw: 2,
+    score: 2,
+    approved: false,
+    wrapped: false
+  },
+  {
+    // 3 +1 age -2 debt > income +1 income > 5000 = 3, exactly the threshold
+    name: 'exactly the approval threshold',
+    inputs: profile({ income: 6000, debt: 7000, age: 30 }),
+    raw: 3,
+    score: 3,
+    approved: true,
+    wrapped: false
+  },
+  {
+    // 3 +1 age -1 (>20000) -2 (> income) -1 (> 2 * income) = 0, clamped up to 1
+    name: 'zero clamped to the minimum',
+    inputs: profile({ income: 3000, debt: 25000, age: 30 }),
+    raw: 0,
+    score: 1,
+    approved: false,
+    wrapped: false
+  },
+  {
+    // 3 -1 (>20000) -1 (>50000) = 1, -2 (> income) wraps to 255, -1 (> 4000) = 254,
+    // which the clamp turns into the top score
+    name: 'debt penalty wraps below zero',
+    inputs: profile({ income: 2000, debt: 60000, age: 22, creditHistory: 1, paymentHistory: 3 }),
+    raw: 254,
+    score: 5,
+    approved: true,
+    wrapped: true
+  },
+  {
+    // As above down to 254 (60000 > 24000), then +1 +1 income wraps 255 -> 0,
+    // clamped up to 1
+    name: 'income bonus wraps past 255',
+    inputs: profile({ income: 12000, debt: 60000 }),
+    raw: 0,
+    score: 1,
+    approved: false,
+    wrapped: true
+  },
+  {
+    // 2 * 3,000,000,000 overflows euint32 to 1,705,032,704, so debt exceeds
+    // "double income" without exceeding income: 3 -1 -1 -1 +1 +1 = 2
+    name: 'doubled income overflows euint32',
+    inputs: profile({ income: 3_000_000_000, debt: 2_000_000_000 }),
+    raw: 2,
+    score: 2,
+    approved: false,
+    wrapped: false
+  },
+  {
+    // Encrypted as euint8 and euint32: age 300 is 44, income 2^32 + 6000 is 6000.
+    // 3 +2 age +1 income = 6, clamped to 5
+    name: 'inputs are reduced to their encrypted width',
+    inputs: profile({ income: 2 ** 32 + 6000, age: 300 }),
+    raw: 6,
+    score: 5,
+    approved: true,
+    wrapped: false
+  }
+]
+
+describe('simulateCreditScore', () => {
+  it.each(cases)('matches the contract: $name', ({ inputs, raw, score, approved, wrapped }) => {
+    const simulation = simulateCreditScore(inputs)
+    const beforeClamp = simulation.steps[simulation.steps.length - 2]
+
+    expect(beforeClamp.score).toBe(raw)
+    expect(simulation.score).toBe(score)
+    expect(simulation.approved).toBe(approved)
+    expect(simulation.wrapped).toBe(wrapped)
+  })
+
+  it('reports the raw score after every step', () => {
+    // 3, +2 age 5, +1 history 6, +2 payment 8, -1 -2 -1 debt 4, +1 income 5, clamp 5
+    const { steps } = simulateCreditScore(
+      profile({ income: 8000, debt: 30000, age: 41, creditHistory: 7, paymentHistory: 10 })
+    )
+
+    expect(steps.map(step => step.score)).toEqual([3, 5, 6, 8, 4, 5, 5])
+  })
+})
@@ -0,0 +1,114 @@
+import type { CreditData } from './types'
+import type { MessageKey } from './i18n'
+
+// Plaintext port of the evaluateCreditScore pipeline in CreditAnalyzer.sol.
+// It runs in the browser only and mirrors the contract's integer types, so
+// FHE.sub on an euint8 wraps around instead of going negative.
+
+// Same thresholds as the contract constants
+const BASE_SCORE = 3
+const MIN_SCORE = 1
+const MAX_SCORE = 5
+export const APPROVAL_SCORE = 3
+
+export interface CreditInputs {
+  income: number
+  debt: number
+  age: number
+  creditHistory: number
+  paymentHistory: number
+}
+
+export interface ScoreStep {
+  label: MessageKey
+  // Raw euint8 score after this step
+  score: number
+}
+
+export interface CreditScoreSimulation {
+  score: number
+  approved: boolean
+  steps: ScoreStep[]
+  // A penalty pushed the score below zero and it wrapped to 255 and down
+  wrapped: boolean
+}
+
+const toUint8 = (value: number) => value & 0xff
+const toUint32 = (value: number) => value >>> 0
+
+/**
+ * Parse form values, or null if any field is not a whole number
+ */
+export function parseCreditInputs(data: CreditData): CreditInputs | null {
+  const values = [data.income, data.debt, data.age, data.creditHistory, data.paymentHistory].map(Number)
+  if (values.some(value => !Number.isInteger(value) || value < 0)) {
+    return null
+  }
+
+  const [income, debt, age, creditHistory, paymentHistory] = values
+  return { income, debt, age, creditHistory, paymentHistory }
+}
+
+/**
+ * Score inputs exactly as evaluateCreditScore does
+ */
+export function simulateCreditScore(inputs: CreditInputs): CreditScoreSimulation {
+  const income = toUint32(inputs.income)
+  const debt = toUint32(inputs.debt)
+  const age = toUint8(inputs.age)
+  const creditHistory = toUint8(inputs.creditHistory)
+  const paymentHistory = toUint8(inputs.paymentHistory)
+
+  let score = BASE_SCORE
+  let wrapped = false
+  const steps: ScoreStep[] = [{ label: 'simulator.stepBase', score }]
+
+  const add = (condition: boolean, amount: number) => {
+    if (condition) score = toUint8(score + amount)
+  }
+  const sub = (condition: boolean, amount: number) => {
+    if (!condition) return
+    if (score < amount) wrapped = true
+    score = toUint8(score - amount)
+  }
+  const step = (label: MessageKey) => steps.push({ label, score })
+
+  // _applyAgeBonus
+  add(age > 25, 1)
+  add(age > 40, 1)
+  step('simulator.stepAge')
+
+  // _applyCreditHistoryBonus
+  add(creditHistory > 5, 1)
+  add(creditHistory > 10, 1)
+  step('simulator.stepCreditHistory')
+
+  // _applyPaymentHistoryBonus
+  add(paymentHistory > 7, 1)
+  add(paymentHistory === 10, 1)
+  step('simulator.stepPaymentHistory')
+
+  // _applyDebtPenalty, where doubled income is an euint32 and can overflow too
+  sub(debt > 20000, 1)
+  sub(debt > 50000, 1)
+  sub(debt > income, 2)
+  sub(debt > toUint32(income * 2), 1)
+  step('simulator.stepDebt')
+
+  // _applyIncomeBonus
+  add(income > 5000, 1)
+  add(income > 10000, 1)
+  step('simulator.stepIncome')
+
+  // _enforceScoreLimits
+  if (score < MIN_SCORE) score = MIN_SCORE
+  if (score > MAX_SCORE) score = MAX_SCORE
+  step('simulator.stepLimits')
+
+  return {
+    score,
+    approved: score >= APPROVAL_SCORE,
+    steps,
+    wrapped
+  }
+}
@@ -0,0 +1,84 @@
+import { ethers } from 'ethers'
+import type { CreditData } from './types'
+import { idbGet, idbPut, idbDelete } from './indexedDb'
+
+// Unfinished credit form drafts, encrypted with AES-GCM under a key derived
+// from a wallet signature. The key lives in memory only, so a draft left on a
+// shared computer cannot be read without the wallet that wrote it.
+
+interface StoredDraft {
+  iv: Uint8Array
+  ciphertext: ArrayBuffer
+  savedAt: number
+}
+
+const DRAFT_KEY_SALT = new TextEncoder().encode('credit-analyzer:drafts')
+
+const draftId = (account: string) => account.toLowerCase()
+
+const draftKeyMessage = (account: string) =>
+  'Unlock encrypted Credit Analyzer drafts\n\n' +
+  'Signing derives a key that encrypts unfinished form data in this browser. ' +
+  'It does not send a transaction or cost gas.\n\n' +
+  `Account: ${ethers.getAddress(account)}`
+
+/**
+ * Derive the draft encryption key from a signature over a fixed message.
+ * Wallets sign deterministically, so the same account always gets the same key.
+ */
+export async function deriveDraftKey(signer: ethers.Signer): Promise<CryptoKey> {
+  const account = await signer.getAddress()
+
+  console.log('✍️ Requesting signature for draft encryption key...')
+  const signature = await signer.signMessage(draftKeyMessage(account))
+
+  const keyMaterial = await crypto.subtle.importKey('raw', ethers.getBytes(signature), 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: DRAFT_KEY_SALT,
+      info: new TextEncoder().encode(draftId(account))
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+/**
+ * When the account's draft was last saved, or null if there is none
+ */
+export async function getDraftSavedAt(account: string): Promise<number | null> {
+  const stored = await idbGet<StoredDraft>('drafts', draftId(account))
+  return stored ? stored.savedAt : null
+}
+
+export async function saveDraft(account: string, key: CryptoKey, data: CreditData): Promise<number> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(data))
+  )
+
+  const savedAt = Date.now()
+  await idbPut<StoredDraft>('drafts', draftId(account), { iv, ciphertext, savedAt })
+  return savedAt
+}
+
+/**
+ * Decrypt the account's draft. Throws if it was encrypted under another key.
+ */
+export async function loadDraft(account: string, key: CryptoKey): Promise<CreditData | null> {
+  const stored = await idbGet<StoredDraft>('drafts', draftId(account))
+  if (!stored) return null
+
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, key, stored.ciphertext)
+  return JSON.parse(new TextDecoder().decode(plaintext))
+}
+
+export async function deleteDraft(account: string): Promise<void> {
+  await idbDelete('drafts', draftId(account))
+}
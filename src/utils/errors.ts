@@ -0,0 +1,309 @@
+import { ethers } from 'ethers'
+import { LocalizedError, translate } from './i18n'
+import type { MessageDescriptor, MessageKey } from './i18n'
+
+// Decoding of contract reverts and wallet errors into typed, user-facing errors
+
+// Why the EVM reverted, decoded from the revert data
+export type RevertReason =
+  | { kind: 'error'; message: string }
+  | { kind: 'panic'; code: number; description: string }
+  | { kind: 'custom'; name: string; args: unknown[] }
+  | { kind: 'unknown'; data?: string }
+
+export type ContractErrorCode =
+  | 'DATA_ALREADY_SUBMITTED'
+  | 'NO_CREDIT_DATA'
+  | 'ALREADY_EVALUATED'
+  | 'NOT_EVALUATED'
+  | 'NOT_AUTHORIZED'
+  | 'NOT_A_LENDER'
+  | 'CONTRACT_OUTDATED'
+  | 'USER_REJECTED'
+  | 'USER_CANCELLED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'PANIC'
+  | 'CUSTOM_ERROR'
+  | 'REVERTED'
+  | 'NETWORK_ERROR'
+  | 'UNKNOWN'
+
+// What the user can do next
+export type RecoveryAction =
+  | 'refreshStatus'
+  | 'submitData'
+  | 'evaluate'
+  | 'switchAccount'
+  | 'redeployContract'
+  | 'addFunds'
+  | 'checkInput'
+  | 'retry'
+  | 'none'
+
+// Revert strings from CreditAnalyzer.sol
+const REVERT_REASON_CODES: { [reason: string]: ContractErrorCode } = {
+  'Data already submitted': 'DATA_ALREADY_SUBMITTED',
+  'No credit data submitted': 'NO_CREDIT_DATA',
+  'Already evaluated': 'ALREADY_EVALUATED',
+  'Credit not evaluated yet': 'NOT_EVALUATED',
+  'Not evaluated': 'NOT_EVALUATED',
+  'Not authorized': 'NOT_AUTHORIZED',
+  'Not authorized to evaluate': 'NOT_AUTHORIZED',
+  'Not a lender': 'NOT_A_LENDER'
+}
+
+const ERROR_RECOVERY: Record<ContractErrorCode, RecoveryAction> = {
+  DATA_ALREADY_SUBMITTED: 'refreshStatus',
+  NO_CREDIT_DATA: 'submitData',
+  ALREADY_EVALUATED: 'refreshStatus',
+  NOT_EVALUATED: 'evaluate',
+  NOT_AUTHORIZED: 'switchAccount',
+  NOT_A_LENDER: 'checkInput',
+  CONTRACT_OUTDATED: 'redeployContract',
+  USER_REJECTED: 'none',
+  USER_CANCELLED: 'none',
+  INSUFFICIENT_FUNDS: 'addFunds',
+  PANIC: 'checkInput',
+  CUSTOM_ERROR: 'checkInput',
+  REVERTED: 'checkInput',
+  NETWORK_ERROR: 'retry',
+  UNKNOWN: 'retry'
+}
+
+// Solidity panic codes
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_DESCRIPTIONS: { [code: number]: string } = {
+  0x01: 'assertion failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division by zero',
+  0x21: 'invalid enum value',
+  0x22: 'corrupted storage byte array',
+  0x31: 'pop from an empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to an uninitialized function'
+}
+
+const ERROR_STRING_SELECTOR = '0x08c379a0' // Error(string)
+const PANIC_SELECTOR = '0x4e487b71' // Panic(uint256)
+
+// Only network failures and unrecognised errors are worth retrying automatically
+const RETRYABLE_CODES: ContractErrorCode[] = ['NETWORK_ERROR', 'UNKNOWN']
+
+export class CreditAnalyzerError extends Error {
+  readonly code: ContractErrorCode
+  readonly reason: RevertReason | null
+  readonly recovery: RecoveryAction
+  readonly cause: unknown
+
+  constructor(code: ContractErrorCode, reason: RevertReason | null, cause?: unknown) {
+    // English for the console; the UI translates getErrorDescriptor instead
+    const message = getErrorDescriptor(code, reason)
+    super(translate('en', message.key, message.params))
+    this.name = 'CreditAnalyzerError'
+    this.code = code
+    this.reason = reason
+    this.recovery = ERROR_RECOVERY[code]
+    this.cause = cause
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code)
+  }
+}
+
+/**
+ * Catalog message for an error, with the revert detail where there is one
+ */
+export function getErrorDescriptor(code: ContractErrorCode, reason: RevertReason | null = null): MessageDescriptor {
+  const message: MessageDescriptor = { key: `errors.${code}` }
+  const detail =
+    code === 'PANIC' && reason?.kind === 'panic' ? reason.description
+    : code === 'CUSTOM_ERROR' && reason?.kind === 'custom' ? reason.name
+    : code === 'REVERTED' && reason?.kind === 'error' ? reason.message
+    : null
+
+  if (detail !== null) return { key: 'errors.withDetail', params: { message, detail } }
+  if (code === 'PANIC' || code === 'CUSTOM_ERROR' || code === 'REVERTED') return { key: 'errors.sentence', params: { message } }
+  return message
+}
+
+/**
+ * What to tell the user about any error: contract errors with their recovery
+ * hint, the app's own errors as raised, and the fallback for anything else
+ * (whose raw message is only fit for the console)
+ */
+export function describeError(error: unknown, fallback: MessageKey): MessageDescriptor {
+  if (error instanceof CreditAnalyzerError) {
+    const message = getErrorDescriptor(error.code, error.reason)
+    return error.recovery === 'none'
+      ? message
+      : { key: 'errors.withHint', params: { message, hint: { key: `recovery.${error.recovery}` } } }
+  }
+
+  if (error instanceof LocalizedError) {
+    return error.descriptor
+  }
+
+  return { key: fallback }
+}
+
+/**
+ * Decode raw revert data into Error(string), Panic(uint256) or a custom error
+ * from the given interface
+ */
+export function decodeRevertData(data: string, contractInterface?: ethers.Interface): RevertReason {
+  if (!data || data === '0x') {
+    return { kind: 'unknown' }
+  }
+
+  const selector = data.slice(0, 10).toLowerCase()
+  const payload = `0x${data.slice(10)}`
+  const coder = ethers.AbiCoder.defaultAbiCoder()
+
+  try {
+    if (selector === ERROR_STRING_SELECTOR) {
+      const [message] = coder.decode(['string'], payload)
+      return { kind: 'error', message }
+    }
+
+    if (selector === PANIC_SELECTOR) {
+      const [code] = coder.decode(['uint256'], payload)
+      const panicCode = Number(code)
+      return {
+        kind: 'panic',
+        code: panicCode,
+        description: PANIC_DESCRIPTIONS[panicCode] || `panic code 0x${panicCode.toString(16)}`
+      }
+    }
+
+    const parsed = contractInterface?.parseError(data)
+    if (parsed) {
+      return { kind: 'custom', name: parsed.name, args: [...parsed.args] }
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to decode revert data:', data, error)
+  }
+
+  return { kind: 'unknown', data }
+}
+
+/**
+ * Pull the revert reason out of an ethers or wallet error, wherever the
+ * provider nested it
+ */
+export function extractRevertReason(error: any, contractInterface?: ethers.Interface): RevertReason | null {
+  // ethers already decoded it
+  if (error?.revert?.name === 'Error' && typeof error.revert.args?.[0] === 'string') {
+    return { kind: 'error', message: error.revert.args[0] }
+  }
+
+  const data = findRevertData(error)
+  if (data) {
+    return decodeRevertData(data, contractInterface)
+  }
+
+  // Some wallets only include the reason in the message text
+  const message: string = error?.shortMessage || error?.message || ''
+  const match = message.match(/reverted(?: with reason string)?:?\s*['"]?([^'"]+?)['"]?\s*$/i)
+  if (match && match[1] && !/^(?:0x|\(|missing revert data)/i.test(match[1])) {
+    return { kind: 'error', message: match[1] }
+  }
+
+  if (error?.code === 'CALL_EXCEPTION' || /execution reverted/i.test(message)) {
+    return { kind: 'unknown' }
+  }
+
+  return null
+}
+
+// Revert data is nested differently by each wallet and RPC provider
+function findRevertData(error: any, depth: number = 0): string | null {
+  if (!error || typeof error !== 'object' || depth > 5) return null
+
+  if (typeof error.data === 'string' && /^0x[0-9a-f]{8}/i.test(error.data)) {
+    return error.data
+  }
+
+  for (const key of ['data', 'error', 'info', 'originalError', 'cause']) {
+    const found = findRevertData(error[key], depth + 1)
+    if (found) return found
+  }
+
+  return null
+}
+
+/**
+ * Map a decoded revert reason to its error code
+ */
+export function createRevertError(reason: RevertReason, cause?: unknown): CreditAnalyzerError {
+  switch (reason.kind) {
+    case 'error':
+      return new CreditAnalyzerError(REVERT_REASON_CODES[reason.message] || 'REVERTED', reason, cause)
+    case 'panic':
+      return new CreditAnalyzerError('PANIC', reason, cause)
+    case 'custom':
+      return new CreditAnalyzerError('CUSTOM_ERROR', reason, cause)
+    default:
+      return new CreditAnalyzerError('REVERTED', reason, cause)
+  }
+}
+
+/**
+ * Turn any error from a contract interaction into a CreditAnalyzerError
+ */
+export function parseContractError(error: any, contractInterface?: ethers.Interface): CreditAnalyzerError {
+  if (error instanceof CreditAnalyzerError) {
+    return error
+  }
+
+  const message: string = error?.message || ''
+
+  if (error?.code === 4001 || error?.code === 'ACTION_REJECTED' || /user (?:rejected|denied)/i.test(message)) {
+    return new CreditAnalyzerError('USER_REJECTED', null, error)
+  }
+
+  if (error?.code === 'INSUFFICIENT_FUNDS' || /insufficient funds/i.test(message)) {
+    return new CreditAnalyzerError('INSUFFICIENT_FUNDS', null, error)
+  }
+
+  const reason = extractRevertReason(error, contractInterface)
+  if (reason) {
+    return createRevertError(reason, error)
+  }
+
+  if (['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR'].includes(error?.code)) {
+    return new CreditAnalyzerError('NETWORK_ERROR', null, error)
+  }
+
+  return new CreditAnalyzerError('UNKNOWN', null, error)
+}
+
+/**
+ * Find out why a mined transaction reverted by replaying it at its block
+ */
+export async function getReceiptRevertReason(
+  provider: ethers.Provider,
+  receipt: ethers.TransactionReceipt,
+  contractInterface?: ethers.Interface
+): Promise<RevertReason> {
+  try {
+    const transaction = await provider.getTransaction(receipt.hash)
+    if (!transaction) {
+      return { kind: 'unknown' }
+    }
+
+    await provider.call({
+      to: transaction.to,
+      from: transaction.from,
+      data: transaction.data,
+      value: transaction.value,
+      blockTag: receipt.blockNumber
+    })
+
+    // The replay succeeded, so the revert depended on state within the block
+    return { kind: 'unknown' }
+  } catch (error) {
+    return extractRevertReason(error, contractInterface) || { kind: 'unknown' }
+  }
+}
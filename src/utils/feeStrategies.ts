@@ -0,0 +1,90 @@
+import { ethers } from 'ethers'
+
+// Fee suggestions from recent blocks via eth_feeHistory
+// https://ethereum.github.io/execution-apis/api-documentation/
+
+export type FeeStrategy = 'slow' | 'standard' | 'fast'
+
+export const FEE_STRATEGIES: FeeStrategy[] = ['slow', 'standard', 'fast']
+
+export interface FeeSuggestion {
+  baseFeePerGas: bigint
+  maxPriorityFeePerGas: bigint
+  maxFeePerGas: bigint
+}
+
+export type FeeSuggestions = Record<FeeStrategy, FeeSuggestion>
+
+// Priority fee percentile of recent blocks each strategy pays
+const REWARD_PERCENTILES: Record<FeeStrategy, number> = {
+  slow: 10,
+  standard: 50,
+  fast: 90
+}
+
+// Headroom over the next base fee, in percent. The base fee can rise 12.5% per
+// full block, so faster strategies tolerate more consecutive full blocks.
+const BASE_FEE_HEADROOM: Record<FeeStrategy, bigint> = {
+  slow: BigInt(125),
+  standard: BigInt(150),
+  fast: BigInt(200)
+}
+
+const FEE_HISTORY_BLOCKS = 20
+
+const median = (values: bigint[]): bigint => {
+  if (values.length === 0) return BigInt(0)
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Compute slow/standard/fast EIP-1559 fees from recent priority fee percentiles.
+ * Returns null when the node does not support eth_feeHistory or the chain has no base fee.
+ */
+export async function getFeeSuggestions(provider: ethers.JsonRpcApiProvider): Promise<FeeSuggestions | null> {
+  try {
+    const percentiles = FEE_STRATEGIES.map(strategy => REWARD_PERCENTILES[strategy])
+    const history = await provider.send('eth_feeHistory', [
+      ethers.toQuantity(FEE_HISTORY_BLOCKS),
+      'latest',
+      percentiles
+    ])
+
+    const baseFees: string[] = history?.baseFeePerGas || []
+    const rewards: string[][] = history?.reward || []
+    if (baseFees.length === 0 || rewards.length === 0) {
+      return null
+    }
+
+    // The last entry is the base fee of the next block
+    const nextBaseFee = BigInt(baseFees[baseFees.length - 1])
+
+    const suggestions = {} as FeeSuggestions
+    FEE_STRATEGIES.forEach((strategy, index) => {
+      // Empty blocks report a zero reward and would drag the median down
+      const blockRewards = rewards
+        .map(blockReward => BigInt(blockReward[index] || 0))
+        .filter(reward => reward > BigInt(0))
+
+      const maxPriorityFeePerGas = median(blockRewards)
+      suggestions[strategy] = {
+        baseFeePerGas: nextBaseFee,
+        maxPriorityFeePerGas,
+        maxFeePerGas: (nextBaseFee * BASE_FEE_HEADROOM[strategy]) / BigInt(100) + maxPriorityFeePerGas
+      }
+    })
+
+    console.log('📊 Fee suggestions from fee history:', Object.fromEntries(
+      FEE_STRATEGIES.map(strategy => [strategy, {
+        maxFeePerGas: ethers.formatUnits(suggestions[strategy].maxFeePerGas, 'gwei'),
+        maxPriorityFeePerGas: ethers.formatUnits(suggestions[strategy].maxPriorityFeePerGas, 'gwei')
+      }])
+    ))
+
+    return suggestions
+  } catch (error) {
+    console.warn('⚠️ eth_feeHistory unavailable, falling back to fee data:', error)
+    return null
+  }
+}
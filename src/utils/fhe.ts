@@ -1,180 +1,409 @@
-import { FhevmInstance, generateKeypair, generatePublicKey, createInstance } from 'fhevmjs'
+import type { FhevmInstance } from 'fhevmjs'
 import { ethers } from 'ethers'
+import type { Eip1193Provider } from 'ethers'
+import { getNetworkConfig } from './networks'
+import type { FHENetworkConfig } from './networks'
+import type { CreditAnalyzerClient } from './creditAnalyzer'
+import { CreditAnalyzerError } from './errors'
+import { LocalizedError } from './i18n'
+import { fheWorker } from './fheWorker'
+import type { FHETaskOptions, EncryptionValue, EncryptedInput } from './fheWorker'
 
-// FHE instance for encryption operations
-let fhevmInstance: FhevmInstance | null = null
+export type { FHEProgressStage, FHETaskOptions } from './fheWorker'
 
-// Contract configuration for FHE
-const FHE_CONFIG = {
-  chainId: 11155111, // Sepolia testnet
-  network: 'https://sepolia.infura.io/v3/',
-  gatewayUrl: 'https://gateway.sepolia.zama.ai/',
-  aclAddress: '0x2Fb4341027eb1d2aD8B5D9708187df8633cAFA92',
-  kmsVerifierAddress: '0x596E6682c72946AF006B27C131793F2B62527A4b'
+type EIP712 = ReturnType<FhevmInstance['createEIP712']>
+
+/**
+ * What this module needs from an FHE instance. The real one lives in a Web
+ * Worker, so every operation is asynchronous.
+ */
+interface FHEEngine {
+  encrypt: (
+    contractAddress: string,
+    userAddress: string,
+    values: EncryptionValue[],
+    options?: FHETaskOptions
+  ) => Promise<EncryptedInput>
+  generateKeypair: () => Promise<{ publicKey: string; privateKey: string }>
+  createEIP712: (publicKey: string, contractAddress: string) => Promise<EIP712>
+  reencrypt: (
+    handle: bigint,
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddress: string,
+    userAddress: string
+  ) => Promise<bigint>
 }
 
+// FHE engine for encryption operations, bound to the chain it was created for
+let fhevmEngine: FHEEngine | null = null
+let fhevmChainId: string | null = null
+let fhevmProvider: Eip1193Provider | null = null
+
 /**
- * Initialize FHE instance
+ * Chain and wallet provider the FHE instance talks to
  */
-export async function initializeFHE(): Promise<FhevmInstance> {
-  if (fhevmInstance) {
-    return fhevmInstance
+export interface FHEContext {
+  chainId: string
+  provider: Eip1193Provider
+}
+
+/**
+ * FHE backend in use:
+ * - 'fhevm': real encryption through fhevmjs
+ * - 'simulation': plaintext stand-in for local development, NOT encrypted
+ */
+export type FHEBackend = 'fhevm' | 'simulation'
+
+// Simulation must be opted into explicitly with VITE_FHE_MODE=simulation
+export const FHE_BACKEND: FHEBackend =
+  import.meta.env.VITE_FHE_MODE === 'simulation' ? 'simulation' : 'fhevm'
+
+/**
+ * Create the simulation engine. Values are written into the "ciphertext"
+ * bytes in plaintext, so it must only ever talk to a local chain.
+ */
+function createSimulationEngine(): FHEEngine {
+  const unavailable = async (): Promise<never> => {
+    throw new LocalizedError({ key: 'fhe.simulationDecrypt' })
   }
 
+  return {
+    encrypt: async (contractAddress, userAddress, values, options) => {
+      options?.onProgress?.('encrypting')
+      console.log(`🧪 Simulating encryption of ${values.length} values for ${contractAddress} / ${userAddress}`)
+      const handles = values.map(({ value, bits }, index) => {
+        const simulated = new Uint8Array(32)
+        new DataView(simulated.buffer).setUint32(0, value, true)
+        simulated[30] = index
+        simulated[31] = bits
+        return simulated
+      })
+      return { handles, inputProof: new Uint8Array(0) }
+    },
+    generateKeypair: unavailable,
+    createEIP712: unavailable,
+    reencrypt: unavailable
+  }
+}
+
+/**
+ * Engine backed by the FHE worker, which holds the fhevmjs instance
+ */
+const workerEngine: FHEEngine = {
+  encrypt: (contractAddress, userAddress, values, options) =>
+    fheWorker.run({ type: 'encrypt', contractAddress, userAddress, values }, options),
+  generateKeypair: () => fheWorker.run({ type: 'generateKeypair' }),
+  createEIP712: (publicKey, contractAddress) => fheWorker.run({ type: 'createEIP712', publicKey, contractAddress }),
+  reencrypt: (handle, privateKey, publicKey, signature, contractAddress, userAddress) =>
+    fheWorker.run({ type: 'reencrypt', handle, privateKey, publicKey, signature, contractAddress, userAddress })
+}
+
+/**
+ * Initialize FHE for the given chain (hex chain id) and wallet provider.
+ * Switching chains or wallets replaces the instance, since keys are per network.
+ * The wasm runs in a Web Worker; pass a signal to stop waiting for it.
+ */
+export async function initializeFHE(
+  { chainId, provider }: FHEContext,
+  options: FHETaskOptions = {}
+): Promise<FHEEngine> {
+  const normalizedChainId = chainId.toLowerCase()
+  if (fhevmEngine && (fhevmChainId !== normalizedChainId || fhevmProvider !== provider)) {
+    resetFHE()
+  }
+
+  const network = getNetworkConfig(normalizedChainId)
+  if (!network) {
+    throw new LocalizedError({ key: 'fhe.notConfigured', params: { chainId } })
+  }
+
+  if (FHE_BACKEND === 'simulation') {
+    if (!fhevmEngine) {
+      console.warn('🧪 FHE SIMULATION MODE: data will NOT be encrypted')
+      fhevmEngine = createSimulationEngine()
+      fhevmChainId = normalizedChainId
+      fhevmProvider = provider
+    }
+    return fhevmEngine
+  }
+
+  try {
+    // A no-op once the worker is ready, and restarts it after a cancellation
+    await fheWorker.init({ chainId: normalizedChainId, ...network.fhe }, provider, options)
+    fhevmEngine = workerEngine
+    fhevmChainId = normalizedChainId
+    fhevmProvider = provider
+    return fhevmEngine
+  } catch (error: any) {
+    if (error instanceof CreditAnalyzerError) {
+      throw error
+    }
+    console.error('❌ Failed to initialize FHE instance:', error)
+    // Never fall back to simulation here: that would put plaintext on-chain
+    throw new LocalizedError({ key: 'fhe.initFailed' })
+  }
+}
+
+/**
+ * Load the wasm and network keys ahead of the first encryption, e.g. when a
+ * wallet connects. Failures are only logged: submitting initializes again and
+ * reports the error then.
+ */
+export async function warmUpFHE(context: FHEContext, options: FHETaskOptions = {}): Promise<boolean> {
   try {
-    console.log('🔐 Initializing FHE instance with minimal config...')
-    
-    // Use minimal configuration to avoid KMS issues
-    fhevmInstance = await createInstance({
-      chainId: FHE_CONFIG.chainId,
-      network: window.ethereum
-    })
-    
-    console.log('✅ FHE instance initialized successfully')
-    return fhevmInstance
+    console.log('🔥 Warming up FHE...')
+    await initializeFHE(context, options)
+    return true
   } catch (error) {
-    console.error('❌ Failed to initialize FHE with minimal config:', error)
-    
-    // If even minimal config fails, create a mock instance for testing
-    console.log('🔄 Creating mock FHE instance for testing...')
-    fhevmInstance = {
-      encrypt32: (value: number) => {
-        console.log(`🔒 Mock encrypting uint32: ${value}`)
-        // Create a simple mock encrypted value
-        const mockEncrypted = new Uint8Array(32)
-        const valueBytes = new ArrayBuffer(4)
-        new DataView(valueBytes).setUint32(0, value, true)
-        mockEncrypted.set(new Uint8Array(valueBytes), 0)
-        return mockEncrypted
-      },
-      encrypt8: (value: number) => {
-        console.log(`🔒 Mock encrypting uint8: ${value}`)
-        // Create a simple mock encrypted value
-        const mockEncrypted = new Uint8Array(16)
-        mockEncrypted[0] = value
-        return mockEncrypted
-      }
-    } as any
-    
-    console.log('✅ Mock FHE instance created for testing')
-    return fhevmInstance
-  }
-}
-
-/**
- * Encrypt a 32-bit unsigned integer (for income, debt)
- */
-export async function encryptUint32(value: number): Promise<Uint8Array> {
-  if (!fhevmInstance) {
-    throw new Error('FHE instance not initialized')
+    if (!options.signal?.aborted) {
+      console.warn('⚠️ FHE warm-up failed:', error)
+    }
+    return false
   }
-  
-  console.log(`🔒 Encrypting uint32 value: ${value}`)
-  const encrypted = fhevmInstance.encrypt32(value)
-  console.log(`✅ Encrypted uint32 (${value}) to ${encrypted.length} bytes`)
-  return encrypted
 }
 
 /**
- * Encrypt an 8-bit unsigned integer (for age, credit history, payment history)
+ * Refuse to send plaintext-bearing payloads anywhere but a local chain
  */
-export async function encryptUint8(value: number): Promise<Uint8Array> {
-  if (!fhevmInstance) {
-    throw new Error('FHE instance not initialized')
+export function assertEncryptionSafeForChain(chainId: string): void {
+  if (FHE_BACKEND === 'simulation' && !getNetworkConfig(chainId)?.isLocal) {
+    throw new LocalizedError({ key: 'fhe.simulationUnsafe' })
   }
-  
-  console.log(`🔒 Encrypting uint8 value: ${value}`)
-  const encrypted = fhevmInstance.encrypt8(value)
-  console.log(`✅ Encrypted uint8 (${value}) to ${encrypted.length} bytes`)
-  return encrypted
 }
 
+// Storage prefix for cached reencryption keypairs and signatures. They hold a
+// private key, so they live in session storage and end with the tab.
+const REENCRYPTION_STORAGE_PREFIX = 'credit-analyzer:reencryption'
+
+export interface ReencryptionCredentials {
+  publicKey: string
+  privateKey: string
+  signature: string
+}
+
+const getCredentialsStorageKey = (chainId: string, contractAddress: string, userAddress: string): string =>
+  `${REENCRYPTION_STORAGE_PREFIX}:${chainId.toLowerCase()}:${contractAddress.toLowerCase()}:${userAddress.toLowerCase()}`
+
 /**
- * Convert encrypted data to uint256 for contract call
+ * Load cached reencryption credentials for an account, if any
  */
-export function encryptedToUint256(encrypted: Uint8Array): string {
-  // Take first 32 bytes and convert to hex string, then to uint256
-  const bytes = encrypted.slice(0, 32)
-  // Pad to 32 bytes if needed
-  const paddedBytes = new Uint8Array(32)
-  paddedBytes.set(bytes)
-  
-  // Convert bytes to BigInt and then to string
-  const hexString = '0x' + Array.from(paddedBytes).map(b => b.toString(16).padStart(2, '0')).join('')
-  return BigInt(hexString).toString()
+function loadCachedCredentials(
+  chainId: string,
+  contractAddress: string,
+  userAddress: string
+): ReencryptionCredentials | null {
+  const key = getCredentialsStorageKey(chainId, contractAddress, userAddress)
+  try {
+    // Earlier versions kept the private key in local storage, so wipe it from disk
+    localStorage.removeItem(key)
+
+    const raw = sessionStorage.getItem(key)
+    if (!raw) return null
+
+    const parsed = JSON.parse(raw)
+    if (!parsed.publicKey || !parsed.privateKey || !parsed.signature) return null
+
+    return parsed as ReencryptionCredentials
+  } catch (error) {
+    console.warn('⚠️ Failed to read cached reencryption credentials:', error)
+    return null
+  }
 }
 
 /**
- * Decrypt a result from the contract (if you have the private key)
+ * Get a keypair and EIP-712 signature for reencryption, reusing the cached
+ * ones for this account so the user only signs once per contract
  */
-export async function decryptResult(encryptedResult: string): Promise<number> {
-  if (!fhevmInstance) {
-    throw new Error('FHE instance not initialized')
+export async function getReencryptionCredentials(
+  signer: ethers.Signer,
+  contractAddress: string,
+  context: FHEContext
+): Promise<ReencryptionCredentials> {
+  const { chainId } = context
+  const instance = await initializeFHE(context)
+  const userAddress = await signer.getAddress()
+
+  const cached = loadCachedCredentials(chainId, contractAddress, userAddress)
+  if (cached) {
+    console.log('🔑 Using cached reencryption credentials')
+    return cached
   }
-  
-  // Convert hex string to Uint8Array
-  const bytes = new Uint8Array(
-    encryptedResult.slice(2).match(/.{2}/g)?.map(byte => parseInt(byte, 16)) || []
+
+  console.log('🔑 Generating reencryption keypair...')
+  const { publicKey, privateKey } = await instance.generateKeypair()
+  const eip712 = await instance.createEIP712(publicKey, contractAddress)
+
+  console.log('✍️ Requesting EIP-712 signature for reencryption...')
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { Reencrypt: eip712.types.Reencrypt },
+    eip712.message
   )
-  
-  // This would require the private key for decryption
-  // For now, we'll return a placeholder since decryption requires special permissions
-  console.log('🔓 Attempting to decrypt result...')
-  return 0 // Placeholder - actual decryption requires private key
-}
-
-/**
- * Encrypt all credit data for submission
- */
-export async function encryptCreditData(data: {
-  income: number
-  debt: number
-  age: number
-  creditHistory: number
-  paymentHistory: number
-}): Promise<{
-  encryptedIncome: string
-  encryptedDebt: string
-  encryptedAge: string
-  encryptedCreditHistory: string
-  encryptedPaymentHistory: string
+
+  const credentials: ReencryptionCredentials = { publicKey, privateKey, signature }
+
+  try {
+    sessionStorage.setItem(getCredentialsStorageKey(chainId, contractAddress, userAddress), JSON.stringify(credentials))
+  } catch (error) {
+    console.warn('⚠️ Failed to cache reencryption credentials:', error)
+  }
+
+  return credentials
+}
+
+/**
+ * Forget cached reencryption credentials for an account
+ */
+export function clearReencryptionCredentials(chainId: string, contractAddress: string, userAddress: string): void {
+  sessionStorage.removeItem(getCredentialsStorageKey(chainId, contractAddress, userAddress))
+}
+
+// fhevmjs errors meaning the keypair or its signature was rejected. Gateway
+// HTTP errors are wrapped, with the status code in the cause; a 4xx is a
+// rejected request, anything else is the gateway or network failing.
+function isCredentialRejection(error: any): boolean {
+  const message = String(error?.message ?? '')
+  const causeMessage = String(error?.cause?.message ?? '')
+  return message.startsWith('Invalid public or private key') ||
+    /gateway respond with HTTP code 4\d\d/.test(causeMessage)
+}
+
+/**
+ * Decrypt an encrypted handle returned by the contract through the gateway
+ */
+export async function decryptResult(
+  handle: bigint | string,
+  signer: ethers.Signer,
+  contractAddress: string,
+  context: FHEContext
+): Promise<bigint> {
+  const instance = await initializeFHE(context)
+  const userAddress = await signer.getAddress()
+  const { publicKey, privateKey, signature } = await getReencryptionCredentials(signer, contractAddress, context)
+
+  console.log('🔓 Requesting reencryption of handle...')
+  try {
+    const value = await instance.reencrypt(
+      BigInt(handle),
+      privateKey,
+      publicKey,
+      signature,
+      contractAddress,
+      userAddress
+    )
+    console.log('✅ Handle decrypted successfully')
+    return value
+  } catch (error) {
+    // A stale signature (e.g. after a contract redeploy) is never going to work, so drop it
+    if (isCredentialRejection(error)) {
+      clearReencryptionCredentials(context.chainId, contractAddress, userAddress)
+    }
+    throw error
+  }
+}
+
+/**
+ * Decrypt the user's credit score band (1-5) and loan approval
+ */
+export async function decryptCreditResult(
+  contract: CreditAnalyzerClient,
+  signer: ethers.Signer,
+  context: FHEContext
+): Promise<{
+  score: number
+  approved: boolean
 }> {
+  const contractAddress = contract.address
+  const userAddress = await signer.getAddress()
+
+  const [scoreHandle, approvalHandle] = await Promise.all([
+    contract.getEncryptedCreditScore(userAddress),
+    contract.getEncryptedLoanApproval(userAddress)
+  ])
+
+  // Decrypt sequentially so a first-time user only sees one signature request
+  const score = await decryptResult(scoreHandle, signer, contractAddress, context)
+  const approved = await decryptResult(approvalHandle, signer, contractAddress, context)
+
+  return {
+    score: Number(score),
+    approved: approved !== BigInt(0)
+  }
+}
+
+/**
+ * Decrypt an applicant's loan approval as the contract owner acting as lender
+ */
+export async function decryptLoanApproval(
+  contract: CreditAnalyzerClient,
+  signer: ethers.Signer,
+  applicant: string,
+  context: FHEContext
+): Promise<boolean> {
+  const approvalHandle = await contract.getEncryptedLoanApproval(applicant)
+  const approved = await decryptResult(approvalHandle, signer, contract.address, context)
+  return approved !== BigInt(0)
+}
+
+export interface EncryptedCreditData {
+  handles: {
+    income: string
+    debt: string
+    age: string
+    creditHistory: string
+    paymentHistory: string
+  }
+  inputProof: string
+}
+
+/**
+ * Encrypt all credit data for submission as a single encrypted input,
+ * bound to the contract and user, so one proof covers every field.
+ * Progress and cancellation work as in initializeFHE.
+ */
+export async function encryptCreditData(
+  data: {
+    income: number
+    debt: number
+    age: number
+    creditHistory: number
+    paymentHistory: number
+  },
+  contractAddress: string,
+  userAddress: string,
+  context: FHEContext,
+  options: FHETaskOptions = {}
+): Promise<EncryptedCreditData> {
   console.log('🔐 Starting credit data encryption...')
   
   // Ensure FHE is initialized
-  await initializeFHE()
+  const instance = await initializeFHE(context, options)
   
-  // Encrypt each field
-  const [
-    encryptedIncome,
-    encryptedDebt,
-    encryptedAge,
-    encryptedCreditHistory,
-    encryptedPaymentHistory
-  ] = await Promise.all([
-    encryptUint32(data.income),
-    encryptUint32(data.debt),
-    encryptUint8(data.age),
-    encryptUint8(data.creditHistory),
-    encryptUint8(data.paymentHistory)
-  ])
+  // Order must match the submitCreditData parameters
+  const { handles, inputProof } = await instance.encrypt(contractAddress, userAddress, [
+    { value: data.income, bits: 32 },
+    { value: data.debt, bits: 32 },
+    { value: data.age, bits: 8 },
+    { value: data.creditHistory, bits: 8 },
+    { value: data.paymentHistory, bits: 8 }
+  ], options)
+
+  if (handles.length !== 5) {
+    throw new Error(`Expected 5 encrypted handles, got ${handles.length}`)
+  }
+
+  const [income, debt, age, creditHistory, paymentHistory] = handles.map(handle => ethers.hexlify(handle))
   
-  const result = {
-    encryptedIncome: encryptedToUint256(encryptedIncome),
-    encryptedDebt: encryptedToUint256(encryptedDebt),
-    encryptedAge: encryptedToUint256(encryptedAge),
-    encryptedCreditHistory: encryptedToUint256(encryptedCreditHistory),
-    encryptedPaymentHistory: encryptedToUint256(encryptedPaymentHistory)
+  const result: EncryptedCreditData = {
+    handles: { income, debt, age, creditHistory, paymentHistory },
+    inputProof: ethers.hexlify(inputProof)
   }
   
   console.log('✅ Credit data encryption completed:')
-  console.log('📊 Encrypted values:', {
-    income: result.encryptedIncome,
-    debt: result.encryptedDebt,
-    age: result.encryptedAge,
-    creditHistory: result.encryptedCreditHistory,
-    paymentHistory: result.encryptedPaymentHistory
-  })
+  console.log('📊 Encrypted handles:', result.handles)
+  console.log(`🧾 Input proof: ${(result.inputProof.length - 2) / 2} bytes`)
   
   return result
 }
@@ -184,11 +413,17 @@ export async function encryptCreditData(data: {
  */
 export function getFHEStatus(): {
   isInitialized: boolean
-  config: typeof FHE_CONFIG
+  backend: FHEBackend
+  chainId: string | null
+  config: FHENetworkConfig | null
 } {
   return {
-    isInitialized: fhevmInstance !== null,
-    config: FHE_CONFIG
+    isInitialized: FHE_BACKEND === 'simulation'
+      ? fhevmEngine !== null
+      : fheWorker.readyChainId !== null && fheWorker.readyChainId === fhevmChainId,
+    backend: FHE_BACKEND,
+    chainId: fhevmChainId,
+    config: getNetworkConfig(fhevmChainId)?.fhe || null
   }
 }
 
@@ -197,5 +432,8 @@ export function getFHEStatus(): {
  */
 export function resetFHE(): void {
   console.log('🔄 Resetting FHE instance...')
-  fhevmInstance = null
+  fheWorker.terminate()
+  fhevmEngine = null
+  fhevmChainId = null
+  fhevmProvider = null
 }
\ No newline at end of file
@@ -0,0 +1,107 @@
+import { ethers } from 'ethers'
+import { idbGet, idbPut, idbDelete } from './indexedDb'
+import type { FHEWorkerNetwork } from './fheWorker'
+
+// Network FHE public key and public parameters (CRS), cached so that
+// createInstance does not download several megabytes every session. Entries
+// are keyed by chain and ACL/KMS addresses, carry a SHA-256 digest that is
+// checked on every read, and are dropped once the gateway serves other keys.
+
+export interface FHEKeys {
+  publicKeyId: string
+  publicKey: Uint8Array
+  publicParamsId: string
+  publicParams: Uint8Array
+}
+
+interface StoredFHEKeys extends FHEKeys {
+  cacheKey: string
+  digest: string
+  savedAt: number
+}
+
+export const getKeyCacheKey = ({ chainId, aclAddress, kmsVerifierAddress }: FHEWorkerNetwork): string =>
+  `${chainId}:${aclAddress}:${kmsVerifierAddress}`.toLowerCase()
+
+async function digestKeys(cacheKey: string, keys: FHEKeys): Promise<string> {
+  const encoder = new TextEncoder()
+  const bytes = ethers.concat([
+    encoder.encode(`${cacheKey}|${keys.publicKeyId}|${keys.publicParamsId}|`),
+    keys.publicKey,
+    keys.publicParams
+  ])
+  return ethers.hexlify(new Uint8Array(await crypto.subtle.digest('SHA-256', ethers.getBytes(bytes))))
+}
+
+/**
+ * Ids of the key and 2048-bit CRS the gateway currently serves, or null if it
+ * cannot be reached. This is a small JSON document, unlike the keys themselves.
+ */
+export async function fetchCurrentKeyIds(gatewayUrl: string): Promise<{ publicKeyId: string; publicParamsId: string } | null> {
+  try {
+    const url = gatewayUrl.endsWith('/') ? gatewayUrl : `${gatewayUrl}/`
+    const response = await fetch(`${url}keyurl`)
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return {
+      publicKeyId: data.response.fhe_key_info[0].fhe_public_key.data_id,
+      publicParamsId: data.response.crs['2048'].data_id
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to fetch current FHE key ids:', error)
+    return null
+  }
+}
+
+/**
+ * Cached keys for a network, if present and intact. Corrupted entries are deleted.
+ */
+export async function loadCachedKeys(network: FHEWorkerNetwork): Promise<FHEKeys | null> {
+  const cacheKey = getKeyCacheKey(network)
+
+  try {
+    const stored = await idbGet<StoredFHEKeys>('fheKeys', cacheKey)
+    if (!stored) return null
+
+    const { publicKeyId, publicKey, publicParamsId, publicParams } = stored
+    const keys: FHEKeys = { publicKeyId, publicKey, publicParamsId, publicParams }
+    if (stored.cacheKey !== cacheKey || stored.digest !== await digestKeys(cacheKey, keys)) {
+      console.warn('⚠️ Cached FHE keys failed the integrity check, discarding them')
+      await clearCachedKeys(network)
+      return null
+    }
+
+    return keys
+  } catch (error) {
+    console.warn('⚠️ Failed to read cached FHE keys:', error)
+    return null
+  }
+}
+
+export async function saveCachedKeys(network: FHEWorkerNetwork, keys: FHEKeys): Promise<void> {
+  const cacheKey = getKeyCacheKey(network)
+
+  try {
+    const stored: StoredFHEKeys = {
+      ...keys,
+      cacheKey,
+      digest: await digestKeys(cacheKey, keys),
+      savedAt: Date.now()
+    }
+    await idbPut('fheKeys', cacheKey, stored)
+    console.log(`💾 Cached FHE keys for ${cacheKey}`)
+  } catch (error) {
+    console.warn('⚠️ Failed to cache FHE keys:', error)
+  }
+}
+
+export async function clearCachedKeys(network: FHEWorkerNetwork): Promise<void> {
+  try {
+    await idbDelete('fheKeys', getKeyCacheKey(network))
+  } catch (error) {
+    console.warn('⚠️ Failed to clear cached FHE keys:', error)
+  }
+}
@@ -0,0 +1,299 @@
+import type { Eip1193Provider } from 'ethers'
+import type { FHENetworkConfig } from './networks'
+import { CreditAnalyzerError } from './errors'
+
+/**
+ * Steps of a worker task, reported as progress events:
+ * - 'loading': compiling the TFHE and KMS wasm modules
+ * - 'fetchingKeys': downloading the network public key and parameters
+ * - 'encrypting': encrypting values and generating the input proof
+ */
+export type FHEProgressStage = 'loading' | 'fetchingKeys' | 'encrypting'
+
+export interface FHETaskOptions {
+  onProgress?: (stage: FHEProgressStage) => void
+  // Aborting rejects this caller's promise only. Wasm cannot be interrupted
+  // mid-computation, so the worker is restarted if no other task needs it.
+  signal?: AbortSignal
+}
+
+export interface FHEWorkerNetwork extends FHENetworkConfig {
+  chainId: string
+}
+
+export interface EncryptionValue {
+  value: number
+  bits: 8 | 32
+}
+
+export interface EncryptedInput {
+  handles: Uint8Array[]
+  inputProof: Uint8Array
+}
+
+// Main thread -> worker
+export type FHEWorkerRequest =
+  | { id: number; type: 'init'; network: FHEWorkerNetwork }
+  | { id: number; type: 'encrypt'; contractAddress: string; userAddress: string; values: EncryptionValue[] }
+  | { id: number; type: 'generateKeypair' }
+  | { id: number; type: 'createEIP712'; publicKey: string; contractAddress: string }
+  | {
+      id: number
+      type: 'reencrypt'
+      handle: bigint
+      privateKey: string
+      publicKey: string
+      signature: string
+      contractAddress: string
+      userAddress: string
+    }
+
+// A request before the client assigns its id
+type WithoutId<T> = T extends { id: number } ? Omit<T, 'id'> : never
+export type FHEWorkerTask = WithoutId<FHEWorkerRequest>
+
+// Worker -> main thread. 'rpc' asks the main thread to forward a JSON-RPC call
+// to the wallet, which workers cannot reach directly.
+export type FHEWorkerMessage =
+  | { type: 'progress'; id: number; stage: FHEProgressStage }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string }
+  | { type: 'rpc'; rpcId: number; method: string; params?: unknown[] | object }
+
+// Main thread -> worker, answering an 'rpc' message
+export interface FHEWorkerRpcResult {
+  type: 'rpcResult'
+  rpcId: number
+  result?: unknown
+  error?: { code?: number; message: string; data?: unknown }
+}
+
+interface PendingTask {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  onProgress?: (stage: FHEProgressStage) => void
+}
+
+/**
+ * Promise API over the FHE worker. The worker is started lazily and keeps its
+ * fhevmjs instance between tasks until it is terminated.
+ */
+export class FHEWorkerClient {
+  private worker: Worker | null = null
+  private provider: Eip1193Provider | null = null
+  private network: FHEWorkerNetwork | null = null
+  private ready: Promise<void> | null = null
+  private initializedChainId: string | null = null
+  private nextId = 1
+  private pending = new Map<number, PendingTask>()
+  // Progress listeners of every caller waiting for the shared init
+  private initListeners = new Set<(stage: FHEProgressStage) => void>()
+
+  /**
+   * Chain the worker's instance was created for, once initialization has finished
+   */
+  get readyChainId(): string | null {
+    return this.initializedChainId
+  }
+
+  /**
+   * Create the worker's fhevmjs instance, unless it already exists for this chain and wallet.
+   * Callers share one init, so aborting only stops this caller from waiting for it.
+   */
+  init(network: FHEWorkerNetwork, provider: Eip1193Provider, options: FHETaskOptions = {}): Promise<void> {
+    const sameNetwork = this.network?.chainId === network.chainId && this.provider === provider
+    if (!this.ready || !sameNetwork) {
+      // Nothing running for another chain or wallet is of use any more
+      if (this.worker) {
+        this.terminate()
+      }
+
+      console.log(`🧵 Initializing FHE worker for chain ${network.chainId}...`)
+      this.provider = provider
+      this.network = network
+
+      const onProgress = (stage: FHEProgressStage) => this.initListeners.forEach(listener => listener(stage))
+      const ready = this.run<void>({ type: 'init', network }, { onProgress }).then(() => {
+        if (this.ready === ready) {
+          this.initializedChainId = network.chainId
+          console.log('✅ FHE worker ready')
+        }
+      })
+      this.ready = ready
+
+      // A failed or cancelled init must not be reused by the next caller
+      ready.catch(() => {
+        if (this.ready === ready) {
+          this.ready = null
+          this.network = null
+        }
+      })
+    }
+
+    return this.follow(this.ready, options)
+  }
+
+  /**
+   * Send a task to the worker and resolve with its result
+   */
+  run<T>(task: FHEWorkerTask, options: FHETaskOptions = {}): Promise<T> {
+    const { onProgress, signal } = options
+
+    if (signal?.aborted) {
+      return Promise.reject(new CreditAnalyzerError('USER_CANCELLED', null))
+    }
+
+    const worker = this.getWorker()
+    const id = this.nextId++
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const task = this.pending.get(id)
+        if (!task) return
+
+        // Any result the worker still sends for this id is ignored
+        console.log('🛑 Cancelling FHE worker task')
+        this.pending.delete(id)
+        task.reject(new CreditAnalyzerError('USER_CANCELLED', null))
+
+        if (this.pending.size === 0) {
+          this.terminate()
+        }
+      }
+
+      this.pending.set(id, {
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort)
+          resolve(result)
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort)
+          reject(error)
+        },
+        onProgress
+      })
+
+      signal?.addEventListener('abort', onAbort)
+      worker.postMessage({ ...task, id } as FHEWorkerRequest)
+    })
+  }
+
+  /**
+   * Stop the worker and reject everything still in flight as cancelled.
+   * The next task starts a fresh worker.
+   */
+  terminate(): void {
+    if (!this.worker) return
+
+    console.log('🧵 Terminating FHE worker')
+    this.stop(new CreditAnalyzerError('USER_CANCELLED', null))
+  }
+
+  // Wait for a shared task as one caller, with its own progress and cancellation
+  private follow(task: Promise<void>, { onProgress, signal }: FHETaskOptions): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new CreditAnalyzerError('USER_CANCELLED', null))
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const detach = () => {
+        if (onProgress) this.initListeners.delete(onProgress)
+        signal?.removeEventListener('abort', onAbort)
+      }
+      const onAbort = () => {
+        detach()
+        reject(new CreditAnalyzerError('USER_CANCELLED', null))
+      }
+
+      if (onProgress) this.initListeners.add(onProgress)
+      signal?.addEventListener('abort', onAbort)
+      task.then(
+        () => {
+          detach()
+          resolve()
+        },
+        (error) => {
+          detach()
+          reject(error)
+        }
+      )
+    })
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new Worker(new URL('../workers/fhe.worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<FHEWorkerMessage>) => this.handleMessage(event.data))
+    worker.addEventListener('error', (event) => {
+      console.error('❌ FHE worker crashed:', event.message)
+      this.stop(new Error(event.message || 'FHE worker crashed'))
+    })
+
+    this.worker = worker
+    return worker
+  }
+
+  private handleMessage(message: FHEWorkerMessage): void {
+    if (message.type === 'rpc') {
+      this.forwardRpc(message.rpcId, message.method, message.params)
+      return
+    }
+
+    const task = this.pending.get(message.id)
+    if (!task) return
+
+    if (message.type === 'progress') {
+      task.onProgress?.(message.stage)
+      return
+    }
+
+    this.pending.delete(message.id)
+    if (message.type === 'result') {
+      task.resolve(message.result)
+    } else {
+      task.reject(new Error(message.message))
+    }
+  }
+
+  private async forwardRpc(rpcId: number, method: string, params?: unknown[] | object): Promise<void> {
+    const worker = this.worker
+    if (!worker) return
+
+    let reply: FHEWorkerRpcResult
+    try {
+      if (!this.provider) {
+        throw new Error('No wallet provider for the FHE worker')
+      }
+      const result = await this.provider.request({ method, params: params as any })
+      reply = { type: 'rpcResult', rpcId, result }
+    } catch (error: any) {
+      reply = {
+        type: 'rpcResult',
+        rpcId,
+        error: { code: error?.code, message: error?.message || String(error), data: error?.data }
+      }
+    }
+
+    // The worker may have been replaced while the wallet was answering
+    if (this.worker === worker) {
+      worker.postMessage(reply)
+    }
+  }
+
+  // Drop the worker and its instance, failing every task still in flight
+  private stop(error: Error): void {
+    this.worker?.terminate()
+    this.worker = null
+    this.ready = null
+    this.network = null
+    this.initializedChainId = null
+
+    const tasks = [...this.pending.values()]
+    this.pending.clear()
+    tasks.forEach(task => task.reject(error))
+  }
+}
+
+// Shared by everything in the app that needs FHE
+export const fheWorker = new FHEWorkerClient()
@@ -0,0 +1,60 @@
+import type { CreditAnalyzerMethodName } from './creditAnalyzer'
+
+// Gas used by this app's confirmed transactions, per chain and method. FHE calls
+// often fail gas estimation, and past receipts are a far better guess than a
+// fixed fallback.
+
+const GAS_USAGE_STORAGE_KEY = 'credit-analyzer:gas-usage'
+
+// Samples kept per chain and method
+const MAX_SAMPLES = 20
+
+// Headroom over the largest gas used so far, in percent
+const LEARNED_LIMIT_BUFFER = BigInt(120)
+
+type GasUsageSamples = { [key: string]: string[] }
+
+const sampleKey = (chainId: string, method: CreditAnalyzerMethodName) =>
+  `${chainId.toLowerCase()}:${method}`
+
+function readSamples(): GasUsageSamples {
+  try {
+    const raw = localStorage.getItem(GAS_USAGE_STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : {}
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch (error) {
+    console.warn('⚠️ Failed to read gas usage samples:', error)
+    return {}
+  }
+}
+
+export function recordGasUsed(chainId: string, method: CreditAnalyzerMethodName, gasUsed: bigint): void {
+  try {
+    const samples = readSamples()
+    const key = sampleKey(chainId, method)
+    samples[key] = [...(samples[key] || []), gasUsed.toString()].slice(-MAX_SAMPLES)
+    localStorage.setItem(GAS_USAGE_STORAGE_KEY, JSON.stringify(samples))
+  } catch (error) {
+    console.warn('⚠️ Failed to save gas usage sample:', error)
+  }
+}
+
+/**
+ * Gas limit learned from past receipts, or null before the first confirmed call
+ */
+export function getLearnedGasLimit(chainId: string, method: CreditAnalyzerMethodName): bigint | null {
+  const samples = (readSamples()[sampleKey(chainId, method)] || [])
+    .map(sample => {
+      try {
+        return BigInt(sample)
+      } catch {
+        return null
+      }
+    })
+    .filter((sample): sample is bigint => sample !== null && sample > BigInt(0))
+
+  if (samples.length === 0) return null
+
+  const maxUsed = samples.reduce((max, sample) => (sample > max ? sample : max))
+  return (maxUsed * LEARNED_LIMIT_BUFFER) / BigInt(100)
+}
@@ -0,0 +1,125 @@
+import { en } from '../locales/en'
+import type { MessageKey } from '../locales/en'
+import { zhCN } from '../locales/zh-CN'
+
+export type { MessageKey }
+
+export type Locale = 'en' | 'zh-CN'
+
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'en', label: 'English' },
+  { locale: 'zh-CN', label: '简体中文' }
+]
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  en,
+  'zh-CN': zhCN
+}
+
+// Numbers are formatted for the locale and nested messages are translated
+export type MessageParams = { [name: string]: string | number | MessageDescriptor }
+
+// A message to translate later, e.g. a validation error
+export interface MessageDescriptor {
+  key: MessageKey
+  params?: MessageParams
+}
+
+/**
+ * Error raised by the app itself. Its message is English, for the console;
+ * the UI translates the descriptor instead.
+ */
+export class LocalizedError extends Error {
+  readonly descriptor: MessageDescriptor
+
+  constructor(descriptor: MessageDescriptor) {
+    super(translate('en', descriptor.key, descriptor.params))
+    this.name = 'LocalizedError'
+    this.descriptor = descriptor
+  }
+}
+
+const LOCALE_STORAGE_KEY = 'credit-analyzer:locale'
+
+/**
+ * Look up a message and fill in its {placeholders}, falling back to English
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const template = CATALOGS[locale][key] ?? en[key] ?? key
+  return template.replace(/\{(\w+)\}/g, (match, name) => {
+    if (!(name in params)) return match
+
+    const value = params[name]
+    if (typeof value === 'number') return formatNumber(locale, value)
+    if (typeof value === 'object') return translate(locale, value.key, value.params)
+    return value
+  })
+}
+
+/**
+ * Saved locale, else the browser's language if we have a catalog for it
+ */
+export function getInitialLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY)
+    if (saved && saved in CATALOGS) return saved as Locale
+  } catch (error) {
+    console.warn('⚠️ Failed to read saved language:', error)
+  }
+
+  const browserLanguage = typeof navigator !== 'undefined' ? navigator.language : 'en'
+  return browserLanguage.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en'
+}
+
+export function saveLocale(locale: Locale): void {
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+  } catch (error) {
+    console.warn('⚠️ Failed to save language:', error)
+  }
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(locale, options).format(value)
+}
+
+/**
+ * Currency amount, in whole units unless more fraction digits are asked for,
+ * e.g. "$5,000" or "US$5,000"
+ */
+export function formatCurrency(
+  locale: Locale,
+  value: number,
+  currency: string = 'USD',
+  maximumFractionDigits: number = 0
+): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency,
+    maximumFractionDigits
+  }).format(value)
+}
+
+/**
+ * ETH amount given as a decimal string, with up to 4 fraction digits by default
+ */
+export function formatEth(locale: Locale, value: string, maximumFractionDigits: number = 4): string {
+  const amount = parseFloat(value)
+  if (!Number.isFinite(amount)) return `${value} ETH`
+
+  return `${new Intl.NumberFormat(locale, { maximumFractionDigits }).format(amount)} ETH`
+}
+
+/**
+ * Date and time of a Unix timestamp in milliseconds
+ */
+export function formatDateTime(locale: Locale, timestamp: number): string {
+  return new Date(timestamp).toLocaleString(locale)
+}
+
+/**
+ * Time of day of a Unix timestamp in milliseconds
+ */
+export function formatTime(locale: Locale, timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString(locale)
+}
@@ -0,0 +1,67 @@
+// Minimal promise wrapper over the app's IndexedDB database. Each store uses
+// out-of-line string keys. Bump DB_VERSION when adding a store.
+
+const DB_NAME = 'credit-analyzer'
+const DB_VERSION = 2
+
+export type StoreName = 'drafts' | 'fheKeys'
+
+const STORES: StoreName[] = ['drafts', 'fheKeys']
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'))
+        return
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store)
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch(error => {
+      // Allow a later call to try again
+      databasePromise = null
+      throw error
+    })
+  }
+
+  return databasePromise
+}
+
+async function runRequest<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const database = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = database.transaction(store, mode)
+    const request = operation(transaction.objectStore(store))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return runRequest<T | undefined>(store, 'readonly', objectStore => objectStore.get(key))
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await runRequest(store, 'readwrite', objectStore => objectStore.put(value, key))
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  await runRequest(store, 'readwrite', objectStore => objectStore.delete(key))
+}
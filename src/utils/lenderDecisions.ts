@@ -0,0 +1,125 @@
+// Off-chain lender decisions on loan approval requests. The contract only emits
+// LoanApprovalRequested, so the outcome of each review lives in local storage.
+
+export type LenderDecisionOutcome = 'approved' | 'declined'
+
+export interface LenderDecision {
+  // Transaction hash and log index of the LoanApprovalRequested event
+  requestId: string
+  applicant: string
+  lender: string
+  outcome: LenderDecisionOutcome
+  // Plaintext of the on-chain approval at decision time, null if the lender did not decrypt it
+  decryptedApproval: boolean | null
+  note: string
+  // Unix timestamps in seconds
+  requestedAt: number
+  evaluatedAt: number | null
+  decidedAt: number
+}
+
+export type DecisionExportFormat = 'csv' | 'json'
+
+const LENDER_DECISIONS_STORAGE_KEY = 'credit-analyzer:lender-decisions'
+
+type DecisionLogs = { [key: string]: LenderDecision[] }
+
+const logKey = (chainId: string, contractAddress: string) =>
+  `${chainId.toLowerCase()}:${contractAddress.toLowerCase()}`
+
+function readLogs(): DecisionLogs {
+  try {
+    const raw = localStorage.getItem(LENDER_DECISIONS_STORAGE_KEY)
+    const parsed = raw ? JSON.parse(raw) : {}
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch (error) {
+    console.warn('⚠️ Failed to read lender decisions:', error)
+    return {}
+  }
+}
+
+/**
+ * Decisions recorded for a contract, oldest first
+ */
+export function loadDecisions(chainId: string, contractAddress: string): LenderDecision[] {
+  const decisions = readLogs()[logKey(chainId, contractAddress)]
+  return Array.isArray(decisions)
+    ? decisions.filter(decision => decision && typeof decision.requestId === 'string')
+    : []
+}
+
+/**
+ * Record a decision, replacing any earlier decision on the same request
+ */
+export function saveDecision(chainId: string, contractAddress: string, decision: LenderDecision): LenderDecision[] {
+  const key = logKey(chainId, contractAddress)
+  const decisions = [
+    ...loadDecisions(chainId, contractAddress).filter(existing => existing.requestId !== decision.requestId),
+    decision
+  ].sort((a, b) => a.decidedAt - b.decidedAt)
+
+  try {
+    localStorage.setItem(LENDER_DECISIONS_STORAGE_KEY, JSON.stringify({ ...readLogs(), [key]: decisions }))
+  } catch (error) {
+    console.warn('⚠️ Failed to save lender decision:', error)
+  }
+
+  return decisions
+}
+
+const CSV_COLUMNS: (keyof LenderDecision)[] = [
+  'requestId',
+  'applicant',
+  'lender',
+  'outcome',
+  'decryptedApproval',
+  'note',
+  'requestedAt',
+  'evaluatedAt',
+  'decidedAt'
+]
+
+const TIMESTAMP_COLUMNS: (keyof LenderDecision)[] = ['requestedAt', 'evaluatedAt', 'decidedAt']
+
+const escapeCsv = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+const formatExportValue = (column: keyof LenderDecision, value: LenderDecision[keyof LenderDecision]) => {
+  if (value === null || value === undefined) return ''
+  if (TIMESTAMP_COLUMNS.includes(column)) return new Date(Number(value) * 1000).toISOString()
+  return String(value)
+}
+
+/**
+ * Serialize a decision log for download
+ */
+export function exportDecisions(
+  decisions: LenderDecision[],
+  format: DecisionExportFormat
+): { filename: string; mimeType: string; content: string } {
+  const date = new Date().toISOString().slice(0, 10)
+
+  if (format === 'json') {
+    return {
+      filename: `lender-decisions-${date}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(decisions.map(decision => Object.fromEntries(
+        CSV_COLUMNS.map(column => [
+          column,
+          TIMESTAMP_COLUMNS.includes(column) && decision[column] !== null
+            ? formatExportValue(column, decision[column])
+            : decision[column]
+        ])
+      )), null, 2)
+    }
+  }
+
+  const rows = decisions.map(decision =>
+    CSV_COLUMNS.map(column => escapeCsv(formatExportValue(column, decision[column]))).join(',')
+  )
+  return {
+    filename: `lender-decisions-${date}.csv`,
+    mimeType: 'text/csv',
+    content: [CSV_COLUMNS.join(','), ...rows].join('\r\n')
+  }
+}
@@ -0,0 +1,136 @@
+// Network registry keyed by chain id (hex, lowercase, as returned by eth_chainId)
+
+export interface FHENetworkConfig {
+  gatewayUrl: string
+  aclAddress: string
+  kmsVerifierAddress: string
+}
+
+export interface NetworkConfig {
+  chainId: string
+  chainName: string
+  contractAddress: string
+  // First block to scan for contract events. Null when unknown, in which case
+  // only recent blocks are scanned rather than the whole chain.
+  deploymentBlock: number | null
+  // Blocks on top of a receipt before a transaction counts as confirmed
+  confirmations: number
+  rpcUrls: string[]
+  // Keyless RPC endpoint used for read-only access without a wallet
+  publicRpcUrl: string
+  blockExplorerUrls: string[]
+  nativeCurrency: {
+    name: string
+    symbol: string
+    decimals: number
+  }
+  fhe: FHENetworkConfig
+  // Local development chains are the only place FHE simulation mode may submit to
+  isLocal: boolean
+}
+
+export const SEPOLIA_CHAIN_ID = '0xaa36a7'
+export const HARDHAT_CHAIN_ID = '0x7a69'
+
+export const NETWORKS: { [chainId: string]: NetworkConfig } = {
+  [SEPOLIA_CHAIN_ID]: {
+    chainId: SEPOLIA_CHAIN_ID,
+    chainName: 'Sepolia Test Network',
+    contractAddress: import.meta.env.VITE_CONTRACT_ADDRESS || '0x55F4A793FD9B9A39a1b17cD23310D0761EE33CCA',
+    deploymentBlock: import.meta.env.VITE_DEPLOYMENT_BLOCK ? Number(import.meta.env.VITE_DEPLOYMENT_BLOCK) : null,
+    confirmations: Number(import.meta.env.VITE_SEPOLIA_CONFIRMATIONS || 2),
+    rpcUrls: [
+      'https://sepolia.infura.io/v3/',
+      'https://rpc.sepolia.org',
+      'https://ethereum-sepolia.blockpi.network/v1/rpc/public'
+    ],
+    publicRpcUrl: import.meta.env.VITE_SEPOLIA_RPC_URL || 'https://rpc.sepolia.org',
+    blockExplorerUrls: ['https://sepolia.etherscan.io/'],
+    nativeCurrency: {
+      name: 'ETH',
+      symbol: 'ETH',
+      decimals: 18
+    },
+    fhe: {
+      gatewayUrl: 'https://gateway.sepolia.zama.ai/',
+      aclAddress: '0x2Fb4341027eb1d2aD8B5D9708187df8633cAFA92',
+      kmsVerifierAddress: '0x596E6682c72946AF006B27C131793F2B62527A4b'
+    },
+    isLocal: false
+  },
+  [HARDHAT_CHAIN_ID]: {
+    chainId: HARDHAT_CHAIN_ID,
+    chainName: 'Hardhat Local',
+    // Default address of the first contract deployed by the default Hardhat account
+    contractAddress: import.meta.env.VITE_LOCAL_CONTRACT_ADDRESS || '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+    deploymentBlock: 0,
+    // Hardhat mines a block per transaction, so waiting for more would never finish
+    confirmations: 1,
+    rpcUrls: ['http://127.0.0.1:8545'],
+    publicRpcUrl: 'http://127.0.0.1:8545',
+    blockExplorerUrls: [],
+    nativeCurrency: {
+      name: 'ETH',
+      symbol: 'ETH',
+      decimals: 18
+    },
+    fhe: {
+      gatewayUrl: import.meta.env.VITE_LOCAL_GATEWAY_URL || 'http://localhost:7077',
+      aclAddress: import.meta.env.VITE_LOCAL_ACL_ADDRESS || '0x339EcE85B9E11a3A3AA557582784a15d7F82AAf2',
+      kmsVerifierAddress: import.meta.env.VITE_LOCAL_KMS_VERIFIER_ADDRESS || '0x208De73316E44722e16f6dDFF40881A3e4F86104'
+    },
+    isLocal: true
+  }
+}
+
+// Network suggested to users who connect on an unsupported chain
+export const DEFAULT_CHAIN_ID = SEPOLIA_CHAIN_ID
+
+// Display names for well-known chains that have no deployment
+const KNOWN_CHAIN_NAMES: { [chainId: string]: string } = {
+  '0x1': 'Ethereum Mainnet',
+  '0x5': 'Goerli Testnet'
+}
+
+/**
+ * Resolve the network config for a chain id, or null if the app is not deployed there
+ */
+export function getNetworkConfig(chainId: string | null | undefined): NetworkConfig | null {
+  if (!chainId) return null
+  return NETWORKS[chainId.toLowerCase()] || null
+}
+
+export function isSupportedChain(chainId: string | null | undefined): boolean {
+  return getNetworkConfig(chainId) !== null
+}
+
+export function getNetworkName(chainId: string): string {
+  const config = getNetworkConfig(chainId)
+  if (config) return config.chainName
+  return KNOWN_CHAIN_NAMES[chainId.toLowerCase()] || `Unknown Network (${chainId})`
+}
+
+export function getSupportedNetworks(): NetworkConfig[] {
+  return Object.values(NETWORKS)
+}
+
+/**
+ * Explorer link for a transaction, or null on chains without an explorer
+ */
+export function getExplorerTxUrl(chainId: string, txHash: string): string | null {
+  const explorerUrl = getNetworkConfig(chainId)?.blockExplorerUrls[0]
+  return explorerUrl ? `${explorerUrl}tx/${txHash}` : null
+}
+
+/**
+ * Parameters for wallet_addEthereumChain
+ */
+export function getAddChainParams(config: NetworkConfig) {
+  return {
+    chainId: config.chainId,
+    chainName: config.chainName,
+    rpcUrls: config.rpcUrls,
+    nativeCurrency: config.nativeCurrency,
+    blockExplorerUrls: config.blockExplorerUrls.length > 0 ? config.blockExplorerUrls : undefined
+  }
+}
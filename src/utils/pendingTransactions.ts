@@ -0,0 +1,70 @@
+import type { CreditAnalyzerMethodName } from './creditAnalyzer'
+import type { TransactionReplacement } from './blockchain'
+
+// In-flight transactions are kept in local storage so tracking survives a reload
+
+export interface PendingTransaction {
+  hash: string
+  method: CreditAnalyzerMethodName
+  account: string
+  chainId: string
+  submittedAt: number
+  // Speed-up and cancel transactions sent for the same nonce
+  replacements?: TransactionReplacement[]
+}
+
+const PENDING_TRANSACTIONS_STORAGE_KEY = 'credit-analyzer:pending-transactions'
+
+function readAll(): PendingTransaction[] {
+  try {
+    const raw = localStorage.getItem(PENDING_TRANSACTIONS_STORAGE_KEY)
+    if (!raw) return []
+
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter(tx => tx && typeof tx.hash === 'string') : []
+  } catch (error) {
+    console.warn('⚠️ Failed to read pending transactions:', error)
+    return []
+  }
+}
+
+function writeAll(transactions: PendingTransaction[]): void {
+  try {
+    if (transactions.length === 0) {
+      localStorage.removeItem(PENDING_TRANSACTIONS_STORAGE_KEY)
+    } else {
+      localStorage.setItem(PENDING_TRANSACTIONS_STORAGE_KEY, JSON.stringify(transactions))
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to save pending transactions:', error)
+  }
+}
+
+export function savePendingTransaction(transaction: PendingTransaction): void {
+  const others = readAll().filter(tx => tx.hash.toLowerCase() !== transaction.hash.toLowerCase())
+  writeAll([...others, transaction])
+}
+
+export function removePendingTransaction(hash: string): void {
+  writeAll(readAll().filter(tx => tx.hash.toLowerCase() !== hash.toLowerCase()))
+}
+
+export function addPendingReplacement(hash: string, replacement: TransactionReplacement): void {
+  writeAll(readAll().map(tx =>
+    tx.hash.toLowerCase() === hash.toLowerCase()
+      ? { ...tx, replacements: [...(tx.replacements || []), replacement] }
+      : tx
+  ))
+}
+
+/**
+ * Pending transactions sent by an account on a chain, oldest first
+ */
+export function loadPendingTransactions(account: string, chainId: string): PendingTransaction[] {
+  return readAll()
+    .filter(tx =>
+      tx.account.toLowerCase() === account.toLowerCase() &&
+      tx.chainId.toLowerCase() === chainId.toLowerCase()
+    )
+    .sort((a, b) => a.submittedAt - b.submittedAt)
+}
@@ -0,0 +1,100 @@
+// Pluggable ETH price sources used to show transaction costs in fiat
+
+export interface PriceSource {
+  name: string
+  // Price of one ETH in the given currency, or null when unavailable
+  getEthPrice(currency: string): Promise<number | null>
+}
+
+// Fixed price, e.g. for offline development or a price set at build time
+export class StaticPriceSource implements PriceSource {
+  readonly name = 'Static'
+  private prices: { [currency: string]: number }
+
+  constructor(prices: { [currency: string]: number }) {
+    this.prices = prices
+  }
+
+  async getEthPrice(currency: string): Promise<number | null> {
+    return this.prices[currency.toLowerCase()] ?? null
+  }
+}
+
+const COINGECKO_PRICE_URL = 'https://api.coingecko.com/api/v3/simple/price'
+
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = 'CoinGecko'
+
+  async getEthPrice(currency: string): Promise<number | null> {
+    const vsCurrency = currency.toLowerCase()
+    const response = await fetch(`${COINGECKO_PRICE_URL}?ids=ethereum&vs_currencies=${vsCurrency}`)
+    if (!response.ok) {
+      throw new Error(`CoinGecko returned ${response.status}`)
+    }
+
+    const data = await response.json()
+    const price = data?.ethereum?.[vsCurrency]
+    return typeof price === 'number' ? price : null
+  }
+}
+
+// Prices are reused for a minute so every review does not hit the API
+const PRICE_CACHE_TTL = 60 * 1000
+
+export class CachedPriceSource implements PriceSource {
+  readonly name: string
+  private source: PriceSource
+  private cache = new Map<string, { price: number | null; fetchedAt: number }>()
+
+  constructor(source: PriceSource) {
+    this.source = source
+    this.name = source.name
+  }
+
+  async getEthPrice(currency: string): Promise<number | null> {
+    const cached = this.cache.get(currency)
+    if (cached && Date.now() - cached.fetchedAt < PRICE_CACHE_TTL) {
+      return cached.price
+    }
+
+    const price = await this.source.getEthPrice(currency)
+    this.cache.set(currency, { price, fetchedAt: Date.now() })
+    return price
+  }
+}
+
+const createDefaultPriceSource = (): PriceSource => {
+  const staticPrice = Number(import.meta.env.VITE_ETH_USD_PRICE)
+  if (staticPrice > 0) {
+    return new StaticPriceSource({ usd: staticPrice })
+  }
+  return new CachedPriceSource(new CoinGeckoPriceSource())
+}
+
+let priceSource: PriceSource = createDefaultPriceSource()
+
+export function getPriceSource(): PriceSource {
+  return priceSource
+}
+
+/**
+ * Replace the price source, e.g. with an oracle or a different API
+ */
+export function setPriceSource(source: PriceSource): void {
+  priceSource = source
+}
+
+/**
+ * Convert an ETH amount to fiat, or null if no price is available
+ */
+export async function convertEthToFiat(amountEth: string, currency: string = 'usd'): Promise<string | null> {
+  try {
+    const price = await priceSource.getEthPrice(currency)
+    if (price === null) return null
+
+    return (parseFloat(amountEth) * price).toFixed(2)
+  } catch (error) {
+    console.warn(`⚠️ Failed to fetch ETH price from ${priceSource.name}:`, error)
+    return null
+  }
+}
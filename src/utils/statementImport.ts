@@ -0,0 +1,252 @@
+import type { CreditData } from './types'
+import { LocalizedError } from './i18n'
+import type { MessageDescriptor } from './i18n'
+
+// Parse exported bank or credit statements (CSV or JSON) into CreditData.
+// Files are read with the File API and never leave the page.
+
+export type StatementFormat = 'csv' | 'json'
+
+export interface StatementTable {
+  format: StatementFormat
+  columns: string[]
+  rows: Record<string, string>[]
+}
+
+export interface ImportMapping {
+  // Column holding each field's value, read from the first row that has one
+  fields: Partial<Record<keyof CreditData, string>>
+  // Transaction columns to derive monthly income from when income is not mapped.
+  // Both columns must be set.
+  transactions?: {
+    dateColumn: string
+    amountColumn: string
+  }
+}
+
+export interface ImportResult {
+  data: Partial<CreditData>
+  // How each imported value was obtained, for the preview
+  sources: Partial<Record<keyof CreditData, MessageDescriptor>>
+  warnings: MessageDescriptor[]
+}
+
+// Keep parsing fast and the preview readable
+const MAX_FILE_MB = 5
+const MAX_FILE_BYTES = MAX_FILE_MB * 1024 * 1024
+
+// Lowercased column names recognized for each field, without separators
+const COLUMN_ALIASES: Record<keyof CreditData, string[]> = {
+  income: ['income', 'monthlyincome', 'salary', 'monthlysalary', 'netincome'],
+  debt: ['debt', 'totaldebt', 'liabilities', 'outstandingdebt', 'balanceowed'],
+  age: ['age', 'applicantage'],
+  creditHistory: ['credithistory', 'credithistoryyears', 'historyyears', 'creditage'],
+  paymentHistory: ['paymenthistory', 'paymentscore', 'paymenthistoryscore', 'paymentrating']
+}
+
+const DATE_ALIASES = ['date', 'transactiondate', 'posteddate', 'bookingdate']
+const AMOUNT_ALIASES = ['amount', 'transactionamount', 'value', 'credit']
+
+const normalizeColumn = (column: string) => column.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Split CSV text into rows of cells, honoring quoted cells with commas,
+ * escaped quotes and line breaks
+ */
+function parseCsvCells(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+function parseCsv(text: string): StatementTable {
+  const [header, ...body] = parseCsvCells(text.replace(/^\uFEFF/, ''))
+  if (!header) {
+    throw new LocalizedError({ key: 'import.emptyCsv' })
+  }
+
+  const columns = header.map(column => column.trim())
+  const rows = body.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()]))
+  )
+
+  return { format: 'csv', columns, rows }
+}
+
+function parseJson(text: string): StatementTable {
+  const parsed = JSON.parse(text)
+
+  // Accept an array of records, an object wrapping one, or a single record
+  const records: unknown[] = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object'
+      ? (Object.values(parsed).find(Array.isArray) as unknown[] | undefined) ?? [parsed]
+      : []
+
+  const rows = records
+    .filter((record): record is Record<string, unknown> => !!record && typeof record === 'object' && !Array.isArray(record))
+    .map(record => Object.fromEntries(
+      Object.entries(record)
+        .filter(([, value]) => value === null || typeof value !== 'object')
+        .map(([key, value]) => [key, value === null || value === undefined ? '' : String(value)])
+    ))
+
+  if (rows.length === 0) {
+    throw new LocalizedError({ key: 'import.noRecords' })
+  }
+
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))))
+  return { format: 'json', columns, rows }
+}
+
+/**
+ * Read a statement file in the browser
+ */
+export async function parseStatementFile(file: File): Promise<StatementTable> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new LocalizedError({ key: 'import.tooLarge', params: { size: MAX_FILE_MB } })
+  }
+
+  const text = await file.text()
+  const isJson = file.name.toLowerCase().endsWith('.json') || file.type === 'application/json'
+
+  console.log(`📄 Parsing ${isJson ? 'JSON' : 'CSV'} statement locally:`, file.name)
+  return isJson ? parseJson(text) : parseCsv(text)
+}
+
+const findColumn = (columns: string[], aliases: string[]) =>
+  columns.find(column => aliases.includes(normalizeColumn(column)))
+
+/**
+ * Guess the mapping from column names
+ */
+export function guessMapping(table: StatementTable): ImportMapping {
+  const fields: ImportMapping['fields'] = {}
+  for (const field of Object.keys(COLUMN_ALIASES) as (keyof CreditData)[]) {
+    const column = findColumn(table.columns, COLUMN_ALIASES[field])
+    if (column) fields[field] = column
+  }
+
+  const dateColumn = findColumn(table.columns, DATE_ALIASES)
+  const amountColumn = findColumn(table.columns, AMOUNT_ALIASES)
+
+  return {
+    fields,
+    transactions: dateColumn && amountColumn ? { dateColumn, amountColumn } : undefined
+  }
+}
+
+/**
+ * Parse an amount such as "$1,234.50" or "(120.00)", or null if it is not a number
+ */
+function parseAmount(raw: string): number | null {
+  const trimmed = raw.trim()
+  if (!trimmed) return null
+
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-')
+  const value = Number(trimmed.replace(/[^0-9.]/g, ''))
+  if (!Number.isFinite(value) || trimmed.replace(/[^0-9]/g, '') === '') return null
+
+  return negative ? -value : value
+}
+
+/**
+ * Average monthly credits over every month that appears in the transactions
+ */
+function deriveMonthlyIncome(
+  rows: Record<string, string>[],
+  dateColumn: string,
+  amountColumn: string
+): { income: number; months: number } | null {
+  const months = new Set<string>()
+  let credits = 0
+
+  for (const row of rows) {
+    const date = new Date(row[dateColumn])
+    const amount = parseAmount(row[amountColumn] ?? '')
+    if (isNaN(date.getTime()) || amount === null) continue
+
+    months.add(`${date.getFullYear()}-${date.getMonth()}`)
+    if (amount > 0) credits += amount
+  }
+
+  if (months.size === 0) return null
+  return { income: Math.round(credits / months.size), months: months.size }
+}
+
+/**
+ * Build credit data from a parsed statement and mapping
+ */
+export function applyMapping(table: StatementTable, mapping: ImportMapping): ImportResult {
+  const data: Partial<CreditData> = {}
+  const sources: ImportResult['sources'] = {}
+  const warnings: MessageDescriptor[] = []
+
+  for (const [field, column] of Object.entries(mapping.fields) as [keyof CreditData, string][]) {
+    if (!column) continue
+
+    const amount = table.rows
+      .map(row => parseAmount(row[column] ?? ''))
+      .find((value): value is number => value !== null)
+
+    if (amount === undefined) {
+      warnings.push({ key: 'import.noNumericValues', params: { column } })
+      continue
+    }
+
+    data[field] = Math.round(Math.abs(amount)).toString()
+    sources[field] = { key: 'import.sourceColumn', params: { column } }
+  }
+
+  if (!data.income && mapping.transactions?.dateColumn && mapping.transactions.amountColumn) {
+    const { dateColumn, amountColumn } = mapping.transactions
+    const derived = deriveMonthlyIncome(table.rows, dateColumn, amountColumn)
+
+    if (derived) {
+      data.income = derived.income.toString()
+      sources.income = derived.months === 1
+        ? { key: 'import.sourceAverageOneMonth', params: { column: amountColumn } }
+        : { key: 'import.sourceAverage', params: { column: amountColumn, months: derived.months } }
+    } else {
+      warnings.push({ key: 'import.noDatedAmounts', params: { dateColumn, amountColumn } })
+    }
+  }
+
+  return { data, sources, warnings }
+}
@@ -10,6 +10,14 @@ export interface UserStatus {
   hasSubmitted: boolean
   isEvaluated: boolean
   canApprove: boolean
+  hasRequestedApproval: boolean
+  // Data was updated after an evaluation, which discarded the old score
+  evaluationOutdated: boolean
+}
+
+export interface CreditResult {
+  score: number
+  approved: boolean
 }
 
 export interface ContractError extends Error {
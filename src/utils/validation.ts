@@ -0,0 +1,151 @@
+import type { CreditData } from './types'
+import type { CreditInputs } from './creditScore'
+import type { MessageKey, MessageDescriptor } from './i18n'
+
+// Declarative rules for the credit data form. Every field is encrypted as an
+// unsigned integer, so the encrypted type's range is checked before any
+// business rule; fhevm would otherwise wrap out-of-range values silently.
+// Errors are message descriptors so the form can show them in any language.
+
+type EncryptedType = 'euint8' | 'euint32'
+
+const TYPE_MAX: Record<EncryptedType, number> = {
+  euint8: 255,
+  euint32: 4294967295
+}
+
+interface FieldSchema {
+  label: MessageKey
+  type: EncryptedType
+  min: number
+  max?: number
+}
+
+export const CREDIT_DATA_SCHEMA: Record<keyof CreditData, FieldSchema> = {
+  income: {
+    label: 'field.income',
+    type: 'euint32',
+    min: 1,
+    max: 10000000
+  },
+  debt: {
+    label: 'field.debt',
+    type: 'euint32',
+    min: 0
+  },
+  age: {
+    label: 'field.age',
+    type: 'euint8',
+    min: 18,
+    max: 100
+  },
+  creditHistory: {
+    label: 'field.creditHistory',
+    type: 'euint8',
+    min: 0
+  },
+  paymentHistory: {
+    label: 'field.paymentHistory',
+    type: 'euint8',
+    min: 1,
+    max: 10
+  }
+}
+
+interface CrossFieldRule {
+  // Field the error is shown on
+  field: keyof CreditData
+  // Other fields the rule reads
+  dependsOn: (keyof CreditData)[]
+  check: (values: CreditInputs) => MessageDescriptor | null
+}
+
+const CROSS_FIELD_RULES: CrossFieldRule[] = [
+  {
+    field: 'debt',
+    dependsOn: ['income'],
+    check: ({ debt, income }) =>
+      debt > income * 100 ? { key: 'validation.debtRatio' } : null
+  },
+  {
+    field: 'creditHistory',
+    dependsOn: ['age'],
+    check: ({ creditHistory, age }) =>
+      creditHistory > age ? { key: 'validation.historyExceedsAge' } : null
+  }
+]
+
+export type CreditDataErrors = Partial<Record<keyof CreditData, MessageDescriptor>>
+
+export interface CreditDataValidation {
+  // Parsed values, only when every rule passes
+  values: CreditInputs | null
+  errors: CreditDataErrors
+  isValid: boolean
+}
+
+const FIELDS = Object.keys(CREDIT_DATA_SCHEMA) as (keyof CreditData)[]
+
+function validateField(raw: string, schema: FieldSchema): { value: number | null; error?: MessageDescriptor } {
+  const field: MessageDescriptor = { key: schema.label }
+  const trimmed = raw.trim()
+  if (!trimmed) {
+    return { value: null, error: { key: 'validation.required', params: { field } } }
+  }
+
+  if (!/^\d+$/.test(trimmed)) {
+    return { value: null, error: { key: 'validation.wholeNumber', params: { field } } }
+  }
+
+  const value = Number(trimmed)
+  const typeMax = TYPE_MAX[schema.type]
+  if (value > typeMax) {
+    return { value: null, error: { key: 'validation.typeMax', params: { field, max: typeMax } } }
+  }
+
+  const max = schema.max ?? typeMax
+  if (value < schema.min || value > max) {
+    return {
+      value: null,
+      error: schema.max === undefined
+        ? { key: 'validation.min', params: { field, min: schema.min } }
+        : { key: 'validation.range', params: { field, min: schema.min, max: schema.max } }
+    }
+  }
+
+  return { value }
+}
+
+/**
+ * Check credit data against the schema and cross-field rules
+ */
+export function validateCreditData(data: CreditData): CreditDataValidation {
+  const errors: CreditDataErrors = {}
+  const parsed: Partial<CreditInputs> = {}
+
+  for (const field of FIELDS) {
+    const { value, error } = validateField(data[field], CREDIT_DATA_SCHEMA[field])
+    if (error) {
+      errors[field] = error
+    } else if (value !== null) {
+      parsed[field] = value
+    }
+  }
+
+  // Cross-field rules only run once every field they read is valid on its own
+  for (const rule of CROSS_FIELD_RULES) {
+    if ([rule.field, ...rule.dependsOn].some(field => parsed[field] === undefined)) continue
+
+    const error = rule.check(parsed as CreditInputs)
+    if (error) {
+      errors[rule.field] = error
+    }
+  }
+
+  const isValid = Object.keys(errors).length === 0
+  return {
+    values: isValid ? (parsed as CreditInputs) : null,
+    errors,
+    isValid
+  }
+}
@@ -0,0 +1,98 @@
+import type { Eip1193Provider } from 'ethers'
+
+// EIP-6963 multi injected provider discovery
+// https://eips.ethereum.org/EIPS/eip-6963
+
+export interface EIP1193Provider extends Eip1193Provider {
+  on?: (event: string, listener: (...args: any[]) => void) => void
+  removeListener?: (event: string, listener: (...args: any[]) => void) => void
+}
+
+export interface WalletInfo {
+  uuid: string
+  name: string
+  icon: string
+  rdns: string
+}
+
+export interface WalletDetail {
+  info: WalletInfo
+  provider: EIP1193Provider
+}
+
+interface EIP6963AnnounceProviderEvent extends Event {
+  detail: WalletDetail
+}
+
+// Identifier used for a legacy window.ethereum provider that does not announce itself
+export const LEGACY_INJECTED_RDNS = 'injected'
+
+const SELECTED_WALLET_STORAGE_KEY = 'credit-analyzer:wallet'
+
+/**
+ * Discover injected wallets. The callback receives the full list every time
+ * a new wallet announces itself. Returns a cleanup function.
+ */
+export function discoverWallets(onChange: (wallets: WalletDetail[]) => void): () => void {
+  const wallets = new Map<string, WalletDetail>()
+
+  const handleAnnounce = (event: Event) => {
+    const { detail } = event as EIP6963AnnounceProviderEvent
+    if (!detail?.info?.rdns || !detail.provider) return
+
+    wallets.set(detail.info.rdns, detail)
+    onChange(withLegacyFallback(wallets))
+  }
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce)
+  window.dispatchEvent(new Event('eip6963:requestProvider'))
+
+  // Wallets that predate EIP-6963 only expose window.ethereum
+  onChange(withLegacyFallback(wallets))
+
+  return () => {
+    window.removeEventListener('eip6963:announceProvider', handleAnnounce)
+  }
+}
+
+function withLegacyFallback(wallets: Map<string, WalletDetail>): WalletDetail[] {
+  const announced = Array.from(wallets.values())
+
+  // Only offer window.ethereum if it is not one of the announced providers
+  if (window.ethereum && !announced.some(wallet => wallet.provider === window.ethereum)) {
+    announced.push({
+      info: {
+        uuid: LEGACY_INJECTED_RDNS,
+        name: 'Browser Wallet',
+        icon: '',
+        rdns: LEGACY_INJECTED_RDNS
+      },
+      provider: window.ethereum
+    })
+  }
+
+  return announced
+}
+
+/**
+ * Remember the chosen wallet for this browser
+ */
+export function saveSelectedWallet(rdns: string | null): void {
+  try {
+    if (rdns) {
+      localStorage.setItem(SELECTED_WALLET_STORAGE_KEY, rdns)
+    } else {
+      localStorage.removeItem(SELECTED_WALLET_STORAGE_KEY)
+    }
+  } catch (error) {
+    console.warn('⚠️ Failed to save wallet selection:', error)
+  }
+}
+
+export function loadSelectedWallet(): string | null {
+  try {
+    return localStorage.getItem(SELECTED_WALLET_STORAGE_KEY)
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,178 @@
+import { initFhevm, createInstance } from 'fhevmjs'
+import type { FhevmInstance } from 'fhevmjs'
+import type { Eip1193Provider } from 'ethers'
+import type {
+  FHEWorkerRequest,
+  FHEWorkerMessage,
+  FHEWorkerRpcResult,
+  FHEProgressStage,
+  EncryptedInput,
+  FHEWorkerNetwork
+} from '../utils/fheWorker'
+import { loadCachedKeys, saveCachedKeys, clearCachedKeys, fetchCurrentKeyIds } from '../utils/fheKeyCache'
+import type { FHEKeys } from '../utils/fheKeyCache'
+
+// Runs the TFHE wasm off the main thread. Talk to it through FHEWorkerClient.
+
+let instance: FhevmInstance | null = null
+let wasmReady: Promise<boolean> | null = null
+
+let nextRpcId = 1
+const pendingRpc = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>()
+
+const post = (message: FHEWorkerMessage) => self.postMessage(message)
+
+/**
+ * EIP-1193 provider that forwards every call to the wallet on the main thread
+ */
+const walletProvider: Eip1193Provider = {
+  request: ({ method, params }) => new Promise((resolve, reject) => {
+    const rpcId = nextRpcId++
+    pendingRpc.set(rpcId, { resolve, reject })
+    post({ type: 'rpc', rpcId, method, params: params as unknown[] | object })
+  })
+}
+
+function settleRpc({ rpcId, result, error }: FHEWorkerRpcResult): void {
+  const call = pendingRpc.get(rpcId)
+  if (!call) return
+
+  pendingRpc.delete(rpcId)
+  if (error) {
+    call.reject(Object.assign(new Error(error.message), { code: error.code, data: error.data }))
+  } else {
+    call.resolve(result)
+  }
+}
+
+function requireInstance(): FhevmInstance {
+  if (!instance) {
+    throw new Error('FHE worker is not initialized')
+  }
+  return instance
+}
+
+// Gateway, ACL and KMS verifier are required for reencryption
+function createNetworkInstance(network: FHEWorkerNetwork, keys: FHEKeys | null): Promise<FhevmInstance> {
+  return createInstance({
+    chainId: parseInt(network.chainId, 16),
+    network: walletProvider,
+    gatewayUrl: network.gatewayUrl,
+    aclContractAddress: network.aclAddress,
+    kmsContractAddress: network.kmsVerifierAddress,
+    // Without keys, fhevmjs downloads them from the gateway
+    publicKeyId: keys?.publicKeyId ?? null,
+    publicKey: keys?.publicKey ?? null,
+    publicParams: keys
+      ? { 2048: { publicParams: keys.publicParams, publicParamsId: keys.publicParamsId } }
+      : null
+  })
+}
+
+/**
+ * Create the instance from cached keys while the gateway still serves them,
+ * otherwise download the keys and cache them for next time
+ */
+async function createCachedInstance(network: FHEWorkerNetwork): Promise<FhevmInstance> {
+  const cached = await loadCachedKeys(network)
+
+  if (cached) {
+    // An unreachable gateway cannot tell us the keys changed, so keep using them
+    const current = await fetchCurrentKeyIds(network.gatewayUrl)
+    const rotated = current !== null &&
+      (current.publicKeyId !== cached.publicKeyId || current.publicParamsId !== cached.publicParamsId)
+
+    if (rotated) {
+      console.log('🔑 Network FHE keys have changed, refreshing the cache')
+      await clearCachedKeys(network)
+    } else {
+      try {
+        const cachedInstance = await createNetworkInstance(network, cached)
+        console.log('⚡ FHE keys loaded from cache')
+        return cachedInstance
+      } catch (error: any) {
+        if (!/deserializ/i.test(error?.message || '')) throw error
+        console.warn('⚠️ Cached FHE keys could not be loaded, downloading them again:', error)
+        await clearCachedKeys(network)
+      }
+    }
+  }
+
+  const freshInstance = await createNetworkInstance(network, null)
+  const publicKey = freshInstance.getPublicKey()
+  const publicParams = freshInstance.getPublicParams(2048)
+  if (publicKey && publicParams) {
+    await saveCachedKeys(network, { ...publicKey, ...publicParams })
+  }
+  return freshInstance
+}
+
+async function handleRequest(request: FHEWorkerRequest, progress: (stage: FHEProgressStage) => void): Promise<unknown> {
+  switch (request.type) {
+    case 'init': {
+      const { network } = request
+      instance = null
+
+      progress('loading')
+      wasmReady = wasmReady ?? initFhevm()
+      await wasmReady
+
+      progress('fetchingKeys')
+      instance = await createCachedInstance(network)
+      return null
+    }
+
+    case 'encrypt': {
+      const input = requireInstance().createEncryptedInput(request.contractAddress, request.userAddress)
+      request.values.forEach(({ value, bits }) => {
+        if (bits === 8) {
+          input.add8(value)
+        } else {
+          input.add32(value)
+        }
+      })
+
+      progress('encrypting')
+      const { handles, inputProof }: EncryptedInput = await input.encrypt()
+      return { handles, inputProof }
+    }
+
+    case 'generateKeypair':
+      return requireInstance().generateKeypair()
+
+    case 'createEIP712':
+      return requireInstance().createEIP712(request.publicKey, request.contractAddress)
+
+    case 'reencrypt':
+      return requireInstance().reencrypt(
+        request.handle,
+        request.privateKey,
+        request.publicKey,
+        request.signature,
+        request.contractAddress,
+        request.userAddress
+      )
+  }
+}
+
+self.addEventListener('message', async (event: MessageEvent<FHEWorkerRequest | FHEWorkerRpcResult>) => {
+  const message = event.data
+
+  if (message.type === 'rpcResult') {
+    settleRpc(message)
+    return
+  }
+
+  const { id } = message
+  try {
+    const result = await handleRequest(message, (stage) => post({ type: 'progress', id, stage }))
+    post({ type: 'result', id, result })
+  } catch (error: any) {
+    console.error(`❌ FHE worker ${message.type} failed:`, error)
+    if (message.type === 'init') {
+      // Let a retry start from scratch if the wasm itself failed to load
+      wasmReady = null
+    }
+    post({ type: 'error', id, message: error?.message || String(error) })
+  }
+})
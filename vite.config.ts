@@ -4,19 +4,21 @@ import { resolve } from 'path'
 import { nodePolyfills } from 'vite-plugin-node-polyfills'
 
 // https://vitejs.dev/config/
+const polyfills = () => nodePolyfills({
+  // Whether to polyfill specific globals.
+  globals: {
+    Buffer: true,
+    global: true,
+    process: true,
+  },
+  // Whether to polyfill Node.js built-in modules.
+  protocolImports: true,
+})
+
 export default defineConfig({
   plugins: [
     react(),
-    nodePolyfills({
-      // Whether to polyfill specific globals.
-      globals: {
-        Buffer: true,
-        global: true,
-        process: true,
-      },
-      // Whether to polyfill Node.js built-in modules.
-      protocolImports: true,
-    }),
+    polyfills(),
   ],
   root: '.',
   publicDir: 'public',
@@ -48,6 +50,11 @@ export default defineConfig({
       transformMixedEsModules: true
     }
   },
+  // The FHE worker loads fhevmjs, which spawns its own wasm thread workers
+  worker: {
+    format: 'es',
+    plugins: () => [polyfills()],
+  },
   optimizeDeps: {
     include: ['buffer', 'process'],
     esbuildOptions: {